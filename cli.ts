@@ -1,7 +1,50 @@
-#!/usr/bin/env -S deno run --allow-read --allow-write --allow-env
+#!/usr/bin/env -S deno run --allow-read --allow-write --allow-env --allow-run
 
 import { parseArgs } from 'https://deno.land/std@0.208.0/cli/parse_args.ts';
-import { GeneratorService } from './src/generator.service.ts';
+import { resolve } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { ConflictStrategy, GeneratorService } from './src/generator.service.ts';
+import {
+  ComponentType,
+  CONFIG_FILE_NAME,
+  ConfigService,
+  TEMPLATE_PRESETS,
+  TemplatePreset,
+} from './src/config.service.ts';
+import {
+  CommandDefinition,
+  CommandLineError,
+  COMMANDS,
+  findCommand,
+  OPTIONS,
+  parseCommandLine,
+} from './src/command-parser.ts';
+import { CquverError } from './src/errors.ts';
+import { HookService } from './src/hook.service.ts';
+import { JournalService } from './src/journal.service.ts';
+import { loadManifest } from './src/manifest.ts';
+import { formatReconcilePlan, ReconcileService } from './src/reconcile.service.ts';
+import { createRunResult } from './src/run-result.ts';
+import { FileWriterService } from './src/file-writer.service.ts';
+import { Logger, LogLevel } from './src/logger.ts';
+import { DoctorIssue, DoctorService } from './src/doctor.service.ts';
+import { ModuleManagerService } from './src/module-manager.service.ts';
+import { WatchService } from './src/watch.service.ts';
+import { WorkspaceService } from './src/workspace.service.ts';
+import { PromptCancelledError, TerminalPrompt } from './src/prompt.ts';
+import { WizardAnswers, WizardService } from './src/wizard.service.ts';
+import {
+  COMPLETE_ACTION,
+  COMPLETION_SHELLS,
+  CompletionService,
+  CompletionShell,
+  generateCompletionScript,
+} from './src/completion.service.ts';
+import {
+  formatInventory,
+  INVENTORY_FORMATS,
+  InventoryFormat,
+  InventoryService,
+} from './src/inventory.service.ts';
 
 const VERSION = '1.3.0'; // Current version
 
@@ -9,20 +52,45 @@ interface Args {
   _: string[];
   help?: boolean;
   version?: boolean;
+  'dry-run'?: boolean;
+  force?: boolean;
+  'skip-existing'?: boolean;
+  all?: boolean;
+  format?: string;
+  fix?: boolean;
+  lib?: string;
+  file?: string;
+  preset?: string;
+  prune?: boolean;
+  interactive?: boolean;
+  json?: boolean;
+  quiet?: boolean;
+  verbose?: boolean;
+  debug?: boolean;
 }
 
 function showHelp() {
+  const options = formatRows(Object.entries(OPTIONS));
+  const actions = formatRows(
+    COMMANDS.map((command) => [[command.name, ...command.aliases].join(', '), command.summary]),
+  );
+
   console.log(`
 🚀 cquver - NestJS DDD/CQRS Boilerplate Generator
 
 📋 Usage:
   cquver <action> <type> <name> [app]
+  cquver <app> <action> <type> <name>
+  cquver                    Create a component step by step (in a terminal)
+  cquver <action> --help    Show help for an action
   cquver --version, -v      Show version information
   cquver --help, -h         Show this help message
 
+🚩 Options:
+${options}
+
 🎯 Actions:
-  create, c, generate, g    Generate a new handler
-  init, i                   Initialize DDD/CQRS structure
+${actions}
 
 📦 Types:
   command, cmd              Generate command handler
@@ -30,6 +98,7 @@ function showHelp() {
   event, e                  Generate event handler
   service, s                Generate domain service
   usecase, u                Generate use case
+  <plugin type>             Types registered by the plugins in cquver.json
 
 ✨ Examples:
   cquver create command CreateUser user-service
@@ -37,26 +106,401 @@ function showHelp() {
   cquver create service UserValidator user-service
   cquver create usecase ProcessUserRegistration user-service
   cquver init user-service
+  cquver remove command CreateUser user-service
+  cquver rename command CreateUser RegisterUser user-service
+  cquver undo
+  cquver list user-service --format markdown
+  cquver doctor user-service --fix
+  cquver sync user-service
+  cquver watch user-service
+  cquver create command CreateUser user-service --dry-run
+  cquver create event UserCreated --lib shared
+  cquver create command CreateUser user-service --preset minimal
+  cquver user-service create -i
+  cquver user-service apply -f domain.yaml
+  cquver user-service plan
+  cquver completions bash
 
 💡 Tips:
   - Use kebab-case for names (they'll be converted automatically)
-  - App parameter is optional if you have only one NestJS app
+  - App parameter is optional if you have only one NestJS app or run cquver inside apps/<app>
   - Run 'cquver init <app>' first to set up the folder structure
 
 🔗 More help: https://github.com/imkarmadev/cquver
   `);
 }
 
+function showCommandHelp(command: CommandDefinition) {
+  const usage = [
+    command.name,
+    ...command.args.map((arg) => `<${arg}>`),
+    ...(command.appless ? [] : ['[app]']),
+  ].join(' ');
+  const aliases = command.aliases.length > 0 ? `\n🔀 Aliases: ${command.aliases.join(', ')}\n` : '';
+  const options = command.options.length > 0
+    ? `\n🚩 Options:\n${formatRows(command.options.map((option) => [option, OPTIONS[option]]))}\n`
+    : '';
+
+  console.log(`
+🚀 cquver ${command.name} - ${command.summary}
+
+📋 Usage:
+  cquver ${usage}
+${aliases}${options}
+✨ Examples:
+${command.examples.map((example) => `  ${example}`).join('\n')}
+  `);
+}
+
+function formatRows(rows: string[][]): string {
+  return rows.map(([left, right]) => `  ${left.padEnd(25)} ${right}`).join('\n');
+}
+
 function showVersion() {
   console.log(`🚀 cquver v${VERSION}`);
   console.log('📦 NestJS DDD/CQRS Boilerplate Generator');
   console.log('🔗 https://github.com/imkarmadev/cquver');
 }
 
+function parseFormat(format = 'table'): InventoryFormat {
+  if (!INVENTORY_FORMATS.includes(format as InventoryFormat)) {
+    throw new CommandLineError(`Format must be one of: ${INVENTORY_FORMATS.join(', ')}.`);
+  }
+  return format as InventoryFormat;
+}
+
+/**
+ * --json wins over the other output flags, then the most detailed level asked for
+ */
+function getLogLevel(args: Args): LogLevel {
+  if (args.json) {
+    return 'silent';
+  }
+  if (args.debug) {
+    return 'debug';
+  }
+  if (args.verbose) {
+    return 'verbose';
+  }
+  return args.quiet ? 'quiet' : 'normal';
+}
+
+function parseConflictStrategy(args: Args): ConflictStrategy {
+  if (args.force && args['skip-existing']) {
+    throw new CommandLineError('--force and --skip-existing cannot be used together.');
+  }
+  if (args.force) {
+    return 'overwrite';
+  }
+  return args['skip-existing'] ? 'skip' : 'abort';
+}
+
+function parsePreset(preset: string | undefined): TemplatePreset | undefined {
+  if (preset !== undefined && !TEMPLATE_PRESETS.includes(preset as TemplatePreset)) {
+    throw new CommandLineError(`Preset must be one of: ${TEMPLATE_PRESETS.join(', ')}.`);
+  }
+  return preset as TemplatePreset | undefined;
+}
+
+function parseShell(shell: string): CompletionShell {
+  if (!COMPLETION_SHELLS.includes(shell as CompletionShell)) {
+    throw new CommandLineError(`Shell must be one of: ${COMPLETION_SHELLS.join(', ')}.`);
+  }
+  return shell as CompletionShell;
+}
+
+/**
+ * Prints the candidates for the last word, called by the completion scripts
+ */
+async function complete(words: string[]) {
+  const cwd = Deno.cwd();
+  const workspace = new WorkspaceService();
+  const root = await workspace.findRoot(cwd).catch(() => null);
+  if (root) {
+    Deno.chdir(root);
+  }
+
+  const candidates = await new CompletionService(workspace).complete(
+    words.slice(0, -1),
+    words[words.length - 1] ?? '',
+    cwd,
+  );
+  for (const candidate of candidates) {
+    console.log(candidate);
+  }
+}
+
+function reportIssues(logger: Logger, issues: DoctorIssue[]) {
+  for (const issue of issues) {
+    logger.info(`❌ ${issue.file}: ${issue.message}`);
+  }
+}
+
+/** What the JSON result needs to know about a run besides the recorded file changes */
+interface RunState {
+  action: string | null;
+  app: string | null;
+  classes: string[];
+  data?: unknown;
+}
+
+async function run(args: Args, state: RunState, fileWriter: FileWriterService, logger: Logger) {
+  const json = logger.level === 'silent';
+  const dryRun = fileWriter.dryRun;
+  // Plans and listings are what the user asked for, only --json replaces them
+  const output = (message: string) => {
+    if (logger.isEnabled('quiet')) {
+      console.log(message);
+    }
+  };
+  const reportDryRun = () => {
+    output(fileWriter.formatPlan());
+    output('🔍 Dry run: no files were written');
+  };
+  const reportSuccess = (message: string) => {
+    if (dryRun) {
+      reportDryRun();
+    } else {
+      logger.success(message);
+    }
+  };
+
+  // Run from the workspace root, remembering where we were called from
+  const cwd = Deno.cwd();
+  const workspace = new WorkspaceService();
+  const root = await workspace.findRoot(cwd);
+  if (root) {
+    Deno.chdir(root);
+  }
+  logger.debug(`Workspace root: ${root ?? 'none found, using the current directory'}`);
+
+  // Plugins listed in cquver.json may add component types
+  const types = await new ConfigService().getComponentTypes();
+  const parsed = parseCommandLine(args._.map(String), args.interactive, types);
+  const action = parsed.command.name;
+  const rest = parsed.args;
+  state.action = action;
+
+  if (action === 'completions') {
+    const script = generateCompletionScript(parseShell(rest[0]));
+    state.data = { script };
+    output(script);
+    return;
+  }
+
+  if (action === 'undo') {
+    const entry = await new JournalService(fileWriter, logger).undo();
+    state.app = entry.app;
+    state.data = { command: entry.command, date: entry.date };
+    reportSuccess(`✅ Undid "cquver ${entry.command}"`);
+    return;
+  }
+
+  if (action === 'list' && !parsed.app && args.all) {
+    const format = parseFormat(args.format);
+    const inventories = await new InventoryService().listWorkspace(workspace);
+    state.data = inventories;
+    output(formatInventory(inventories, format, types));
+    return;
+  }
+
+  if (args.lib && parsed.app) {
+    throw new CommandLineError('--lib and an app name cannot be used together.');
+  }
+
+  let answers: WizardAnswers | null = null;
+  if (args.interactive) {
+    if (json) {
+      throw new CommandLineError('--json cannot be used with --interactive.');
+    }
+    answers = await new WizardService(new TerminalPrompt(), workspace).run({
+      app: args.lib || parsed.app,
+      library: !!args.lib,
+      cwd,
+    });
+    if (!answers) {
+      logger.info('👋 Cancelled, nothing was written');
+      return;
+    }
+  }
+
+  // The app is --lib, given on the command line, picked in the wizard or detected
+  const appName = args.lib || parsed.app || answers?.app || await workspace.resolveApp(cwd);
+  state.app = appName;
+
+  const kind = args.lib ? 'library' : await workspace.getProjectKind(appName);
+  const configService = new ConfigService(
+    CONFIG_FILE_NAME,
+    kind,
+    await workspace.getProjectLocations(),
+  );
+  const target = { app: 'app', library: 'library', standalone: 'project' }[kind];
+  const generator = new GeneratorService(configService, fileWriter, logger);
+  const journal = new JournalService(fileWriter, logger);
+  const hooks = new HookService(configService, fileWriter, logger);
+  logger.debug(
+    `Resolved ${target} "${appName}" from ${
+      args.lib
+        ? '--lib'
+        : parsed.app
+        ? 'the command line'
+        : answers
+        ? 'the wizard'
+        : 'the workspace'
+    }`,
+  );
+  if (logger.isEnabled('debug')) {
+    logger.debug(`Config: ${JSON.stringify(await configService.getAppConfig(appName))}`);
+  }
+
+  if (action === 'init') {
+    await generator.initializeService(appName);
+    await journal.record(`${appName} init`, appName);
+    reportSuccess(`✅ Successfully initialized service structure for "${appName}"`);
+  } else if (action === 'create') {
+    const [type, name] = answers ? [answers.type, answers.name] : rest as [ComponentType, string];
+
+    const onConflict = parseConflictStrategy(args);
+    const context = { app: appName, command: `${appName} create ${type} ${name}` };
+
+    await hooks.preGenerate(context);
+    state.classes = await generator.generate(appName, type, name, {
+      onConflict,
+      properties: answers?.properties,
+      preset: parsePreset(args.preset),
+    });
+    try {
+      await hooks.postGenerate(context);
+    } finally {
+      // Recorded even when a hook fails, undo can still remove what was written
+      await journal.record(context.command, appName);
+    }
+    reportSuccess(`✅ Successfully generated ${type} "${name}" for ${target} "${appName}"`);
+  } else if (action === 'remove') {
+    const [type, name] = rest as [ComponentType, string];
+
+    state.classes = await generator.remove(appName, type, name);
+    reportSuccess(`✅ Successfully removed ${type} "${name}" from ${target} "${appName}"`);
+  } else if (action === 'rename') {
+    const [type, name, newName] = rest as [ComponentType, string, string];
+
+    state.classes = await generator.rename(appName, type, name, newName);
+    reportSuccess(
+      `✅ Successfully renamed ${type} "${name}" to "${newName}" in ${target} "${appName}"`,
+    );
+  } else if (action === 'apply' && args.file) {
+    if (args.prune) {
+      throw new CommandLineError(
+        '--prune only applies to cquver.domain.yaml, not to -f manifests.',
+      );
+    }
+    const onConflict = parseConflictStrategy(args);
+    // The manifest path is relative to where cquver was called from
+    const components = await loadManifest(resolve(cwd, args.file), types);
+    const context = { app: appName, command: `${appName} apply -f ${args.file}` };
+
+    await hooks.preGenerate(context);
+    state.classes = await generator.generateMany(appName, components, {
+      onConflict,
+      preset: parsePreset(args.preset),
+    });
+    await hooks.postGenerate(context);
+    reportSuccess(
+      `✅ Applied ${components.length} component(s) from ${args.file} to ${target} "${appName}"`,
+    );
+  } else if (action === 'apply') {
+    const onConflict = parseConflictStrategy(args);
+    const reconcile = new ReconcileService(configService, fileWriter, logger);
+    const context = { app: appName, command: `${appName} apply${args.prune ? ' --prune' : ''}` };
+
+    await hooks.preGenerate(context);
+    const plan = await reconcile.apply(appName, {
+      prune: args.prune,
+      onConflict,
+      preset: parsePreset(args.preset),
+    });
+    state.data = plan;
+    await hooks.postGenerate(context);
+
+    logger.info(formatReconcilePlan(appName, plan, args.prune));
+    const deleted = args.prune ? plan.undeclared.length : 0;
+    reportSuccess(
+      `✅ Reconciled ${target} "${appName}": ${plan.missing.length} created, ${deleted} deleted, ` +
+        `${plan.drift.length} wiring problem(s) fixed`,
+    );
+  } else if (action === 'plan') {
+    const plan = await new ReconcileService(configService, fileWriter, logger).plan(appName);
+    state.data = plan;
+    output(formatReconcilePlan(appName, plan, args.prune));
+  } else if (action === 'list') {
+    const format = parseFormat(args.format);
+    const inventory = await new InventoryService(configService).listApp(appName);
+    state.data = inventory;
+    output(formatInventory([inventory], format, types));
+  } else if (action === 'doctor') {
+    const doctor = new DoctorService(configService, fileWriter, logger);
+    logger.info(`🩺 Checking "${appName}"...`);
+    let issues = await doctor.diagnose(appName);
+    state.data = { issues };
+
+    if (issues.length > 0 && args.fix) {
+      reportIssues(logger, issues);
+      await doctor.fix(appName, issues);
+      if (dryRun) {
+        reportDryRun();
+        return;
+      }
+      logger.info(`🔧 Fixed ${issues.length} problem(s), checking again...`);
+      issues = await doctor.diagnose(appName);
+      state.data = { issues };
+    }
+
+    if (issues.length > 0) {
+      reportIssues(logger, issues);
+      throw new CquverError(
+        'DOCTOR_ISSUES',
+        `Found ${issues.length} problem(s).` +
+          (args.fix ? '' : ` Run "cquver ${appName} doctor --fix" to repair them.`),
+      );
+    }
+    logger.success('✅ No problems found');
+  } else if (action === 'sync') {
+    await new ModuleManagerService(configService, fileWriter, logger).syncApp(appName);
+    const changed = fileWriter.changes.filter((c) => c.previousContent !== c.content);
+    reportSuccess(`✅ Synced ${target} "${appName}", ${changed.length} file(s) changed`);
+  } else if (action === 'watch') {
+    if (dryRun || json) {
+      throw new CommandLineError(`--${dryRun ? 'dry-run' : 'json'} cannot be used with watch.`);
+    }
+    logger.info(`👀 Watching "${appName}" for component changes, press Ctrl+C to stop`);
+    await new WatchService(configService, logger).watch(appName);
+  }
+}
+
 async function main() {
+  if (Deno.args[0] === COMPLETE_ACTION) {
+    await complete(Deno.args.slice(1));
+    Deno.exit(0);
+  }
+
   const args = parseArgs(Deno.args, {
-    boolean: ['help', 'version'],
-    alias: { h: 'help', v: 'version' },
+    boolean: [
+      'help',
+      'version',
+      'dry-run',
+      'force',
+      'skip-existing',
+      'all',
+      'fix',
+      'json',
+      'quiet',
+      'verbose',
+      'debug',
+      'prune',
+      'interactive',
+    ],
+    string: ['format', 'lib', 'file', 'preset'],
+    alias: { h: 'help', v: 'version', q: 'quiet', f: 'file', i: 'interactive' },
   }) as Args;
 
   if (args.version) {
@@ -64,53 +508,53 @@ async function main() {
     Deno.exit(0);
   }
 
-  if (args.help || args._.length === 0) {
+  if (
+    args._.length === 0 && !args.help && Deno.stdin.isTerminal() && Deno.stdout.isTerminal()
+  ) {
+    // Without arguments a terminal user gets the wizard, scripts still get the help
+    args._ = ['create'];
+    args.interactive = true;
+  } else if (args._.length === 0) {
     showHelp();
     Deno.exit(0);
   }
 
-  const [appName, action, ...rest] = args._;
-
-  if (!appName || !action) {
-    console.error('❌ Invalid arguments. Use --help for usage information.');
-    Deno.exit(1);
+  if (args.help) {
+    const positional = args._.map(String);
+    const command = findCommand(positional[0]) ?? findCommand(positional[1]);
+    if (command) {
+      showCommandHelp(command);
+    } else {
+      showHelp();
+    }
+    Deno.exit(0);
   }
 
-  try {
-    const generator = new GeneratorService();
-
-    if (action === 'init') {
-      await generator.initializeService(appName as string);
-      console.log(`✅ Successfully initialized service structure for "${appName}"`);
-    } else if (action === 'create') {
-      const [type, name] = rest;
-
-      if (!type || !name) {
-        console.error(
-          '❌ Create command requires type and name. Use --help for usage information.',
-        );
-        Deno.exit(1);
-      }
-
-      if (!['event', 'command', 'query', 'service', 'usecase'].includes(type as string)) {
-        console.error('❌ Type must be "event", "command", "query", "service", or "usecase".');
-        Deno.exit(1);
-      }
+  const json = args.json ?? false;
+  const fileWriter = new FileWriterService(args['dry-run'] ?? false);
+  const logger = new Logger(getLogLevel(args));
+  const state: RunState = { action: null, app: null, classes: [] };
 
-      await generator.generate(
-        appName as string,
-        type as 'event' | 'command' | 'query' | 'service' | 'usecase',
-        name as string,
-      );
-      console.log(`✅ Successfully generated ${type} "${name}" for app "${appName}"`);
+  try {
+    await run(args, state, fileWriter, logger);
+  } catch (error) {
+    if (json) {
+      const result = createRunResult(fileWriter, { ...state, warnings: logger.warnings, error });
+      console.log(JSON.stringify(result, null, 2));
+    } else if (error instanceof PromptCancelledError) {
+      logger.info(`\n👋 ${error.message}`);
+    } else if (error instanceof CquverError) {
+      logger.error(error.message);
     } else {
-      console.error('❌ Action must be "init" or "create".');
-      Deno.exit(1);
+      logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
     }
-  } catch (error) {
-    console.error(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
     Deno.exit(1);
   }
+
+  if (json) {
+    const result = createRunResult(fileWriter, { ...state, warnings: logger.warnings });
+    console.log(JSON.stringify(result, null, 2));
+  }
 }
 
 if (import.meta.main) {
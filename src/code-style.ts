@@ -0,0 +1,293 @@
+import { join } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { parse as parseYaml } from 'https://deno.land/std@0.208.0/yaml/parse.ts';
+import { CquverError } from './errors.ts';
+
+/** Trailing commas of multi-line lists: none, es5 (arrays and objects) or all (also parameters) */
+export type TrailingCommas = 'none' | 'es5' | 'all';
+
+/**
+ * Formatting of generated code, read from .editorconfig and .prettierrc in the workspace
+ */
+export interface CodeStyle {
+  quote: "'" | '"';
+  /** One indentation level, e.g. two spaces or a tab */
+  indent: string;
+  semicolons: boolean;
+  trailingCommas: TrailingCommas;
+}
+
+/** Style of the built-in templates and index files, used when the workspace sets nothing */
+export const DEFAULT_CODE_STYLE: CodeStyle = {
+  quote: "'",
+  indent: '  ',
+  semicolons: true,
+  trailingCommas: 'all',
+};
+
+/** Prettier configuration files, the first one found is used */
+const PRETTIER_FILES = ['.prettierrc', '.prettierrc.json'];
+
+const TRAILING_COMMAS: TrailingCommas[] = ['none', 'es5', 'all'];
+
+/** quote_type of .editorconfig, an extension some editors and linters support */
+const QUOTE_TYPES: Record<string, CodeStyle['quote'] | undefined> = { single: "'", double: '"' };
+
+interface PrettierOptions {
+  singleQuote?: boolean;
+  semi?: boolean;
+  tabWidth?: number;
+  useTabs?: boolean;
+  trailingComma?: TrailingCommas;
+}
+
+/**
+ * Reads the code style of a workspace. Prettier options win over .editorconfig, and like
+ * Prettier itself a .prettierrc without singleQuote means double quotes.
+ */
+export async function loadCodeStyle(dir: string): Promise<CodeStyle> {
+  const editorConfig = parseEditorConfig(await readOptional(join(dir, '.editorconfig')) ?? '');
+  const prettier = await loadPrettierOptions(dir);
+
+  const useTabs = prettier?.useTabs ?? editorConfig.indent_style === 'tab';
+  const indentSize = editorConfig.indent_size === 'tab'
+    ? editorConfig.tab_width
+    : editorConfig.indent_size;
+  const width = prettier?.tabWidth ?? (Number(indentSize) || DEFAULT_CODE_STYLE.indent.length);
+  const editorQuote = QUOTE_TYPES[editorConfig.quote_type];
+
+  return {
+    quote: prettier ? (prettier.singleQuote ? "'" : '"') : editorQuote ?? DEFAULT_CODE_STYLE.quote,
+    indent: useTabs ? '\t' : ' '.repeat(width),
+    semicolons: prettier?.semi ?? DEFAULT_CODE_STYLE.semicolons,
+    trailingCommas: prettier?.trailingComma ?? DEFAULT_CODE_STYLE.trailingCommas,
+  };
+}
+
+/**
+ * Rewrites code written in the default style (single quotes, two spaces, semicolons and
+ * trailing commas) to the given style. Quotes and commas in comments and template literals are
+ * left alone, comments are re-indented with the code, lines inside template literals are not.
+ */
+export function applyCodeStyle(content: string, style: CodeStyle): string {
+  let result = '';
+  let i = 0;
+  // Start and end offsets of the template literals in result
+  const templates: Array<[number, number]> = [];
+
+  while (i < content.length) {
+    const char = content[i];
+    const end = char === "'" || char === '"'
+      ? findStringEnd(content, i)
+      : char === '`'
+      ? findTemplateEnd(content, i)
+      : findCommentEnd(content, i);
+
+    if (end !== null) {
+      const token = content.slice(i, end);
+      if (char === '`') {
+        templates.push([result.length, result.length + token.length]);
+      }
+      result += char === "'" || char === '"' ? requote(token, style.quote) : token;
+      i = end;
+      continue;
+    }
+
+    if (char === ',' || char === ';') {
+      const next = content[skipWhitespaceAndComments(content, i + 1)];
+      const dropComma = char === ',' && next !== undefined && (
+        (style.trailingCommas === 'none' && ')]}'.includes(next)) ||
+        (style.trailingCommas === 'es5' && next === ')')
+      );
+      // Like Prettier, lines starting with ( [ or ` keep the semicolon before them
+      const dropSemicolon = char === ';' && !style.semicolons && endsLine(content, i + 1) &&
+        (next === undefined || !'([`'.includes(next));
+      if (dropComma || dropSemicolon) {
+        i++;
+        continue;
+      }
+    }
+    result += char;
+    i++;
+  }
+
+  if (style.indent === DEFAULT_CODE_STYLE.indent) {
+    return result;
+  }
+  return result.replace(
+    /^( +)/gm,
+    (spaces: string, _group: string, offset: number) =>
+      templates.some(([start, end]) => offset > start && offset < end)
+        ? spaces
+        : style.indent.repeat(Math.floor(spaces.length / 2)) + ' '.repeat(spaces.length % 2),
+  );
+}
+
+/**
+ * Returns the properties of .editorconfig sections matching TypeScript files, later ones win
+ */
+function parseEditorConfig(content: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  let applies = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+    const section = line.match(/^\[(.*)\]$/);
+    if (section) {
+      applies = matchesTypeScript(section[1]);
+      continue;
+    }
+    const property = line.match(/^([\w-]+)\s*[=:]\s*(.*)$/);
+    if (applies && property) {
+      properties[property[1].toLowerCase()] = property[2].trim().toLowerCase();
+    }
+  }
+  return properties;
+}
+
+/**
+ * Checks whether an .editorconfig section glob such as *.{js,ts} matches a .ts file
+ */
+function matchesTypeScript(glob: string): boolean {
+  const pattern = glob
+    .slice(glob.lastIndexOf('/') + 1)
+    .replace(/[.+^$()|\\]/g, '\\$&')
+    .replace(/\{([^}]*)\}/g, (_, alternatives: string) => `(${alternatives.split(',').join('|')})`)
+    .replaceAll('?', '.')
+    .replace(/\*+/g, '.*');
+  return new RegExp(`^${pattern}$`).test('file.ts');
+}
+
+async function loadPrettierOptions(dir: string): Promise<PrettierOptions | null> {
+  for (const file of PRETTIER_FILES) {
+    const content = await readOptional(join(dir, file));
+    if (content === null) {
+      continue;
+    }
+
+    let options: PrettierOptions;
+    try {
+      options = (file.endsWith('.json') ? JSON.parse(content) : parseYaml(content)) ?? {};
+    } catch (error) {
+      throw new CquverError(
+        'INVALID_CONFIG',
+        `Invalid ${file}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (options.trailingComma && !TRAILING_COMMAS.includes(options.trailingComma)) {
+      throw new CquverError(
+        'INVALID_CONFIG',
+        `Invalid trailingComma "${options.trailingComma}" in ${file}, ` +
+          `use one of: ${TRAILING_COMMAS.join(', ')}`,
+      );
+    }
+    return options;
+  }
+  return null;
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Swaps the quotes of a string literal, unless the new quote appears in it or it is unterminated
+ */
+function requote(literal: string, quote: CodeStyle['quote']): string {
+  const original = literal[0];
+  const body = literal.slice(1, -1);
+  if (
+    original === quote || body.includes(quote) || literal.length < 2 ||
+    !literal.endsWith(original)
+  ) {
+    return literal;
+  }
+  return `${quote}${body.replaceAll(`\\${original}`, original)}${quote}`;
+}
+
+/**
+ * Returns the index after a string literal starting at start
+ */
+function findStringEnd(content: string, start: number): number {
+  for (let i = start + 1; i < content.length; i++) {
+    if (content[i] === '\\') {
+      i++;
+    } else if (content[i] === content[start]) {
+      return i + 1;
+    } else if (content[i] === '\n') {
+      return i;
+    }
+  }
+  return content.length;
+}
+
+/**
+ * Returns the index after a template literal starting at start, including its ${} parts
+ */
+function findTemplateEnd(content: string, start: number): number {
+  let depth = 0;
+  for (let i = start + 1; i < content.length; i++) {
+    if (content[i] === '\\') {
+      i++;
+    } else if (depth === 0 && content[i] === '`') {
+      return i + 1;
+    } else if (content.startsWith('${', i)) {
+      depth++;
+      i++;
+    } else if (depth > 0 && content[i] === '{') {
+      depth++;
+    } else if (depth > 0 && content[i] === '}') {
+      depth--;
+    }
+  }
+  return content.length;
+}
+
+/**
+ * Returns the index after a comment starting at start, or null when there is none
+ */
+function findCommentEnd(content: string, start: number): number | null {
+  if (content.startsWith('//', start)) {
+    const end = content.indexOf('\n', start);
+    return end === -1 ? content.length : end;
+  }
+  if (content.startsWith('/*', start)) {
+    const end = content.indexOf('*/', start + 2);
+    return end === -1 ? content.length : end + 2;
+  }
+  return null;
+}
+
+function skipWhitespaceAndComments(content: string, start: number): number {
+  let i = start;
+  while (i < content.length) {
+    if (/\s/.test(content[i])) {
+      i++;
+    } else {
+      const end = findCommentEnd(content, i);
+      if (end === null) {
+        break;
+      }
+      i = end;
+    }
+  }
+  return i;
+}
+
+/**
+ * Checks whether only spaces and a line comment follow on the line
+ */
+function endsLine(content: string, start: number): boolean {
+  const lineEnd = content.indexOf('\n', start);
+  const rest = content.slice(start, lineEnd === -1 ? undefined : lineEnd);
+  return /^[ \t]*(\/\/.*)?$/.test(rest);
+}
@@ -0,0 +1,312 @@
+import { ComponentTypeRegistry } from './component-types.ts';
+import { ComponentType } from './config.service.ts';
+import { CquverError } from './errors.ts';
+import { findClosest } from './utils.ts';
+
+export interface CommandDefinition {
+  name: string;
+  aliases: string[];
+  /** Positional arguments, an app name may follow them */
+  args: string[];
+  summary: string;
+  /** Options shown in the command help, see OPTIONS */
+  options: string[];
+  examples: string[];
+  /** Does not act on an app, so no app name may be given */
+  appless?: boolean;
+  /** Can ask for its arguments with --interactive instead */
+  interactive?: boolean;
+}
+
+export const OPTIONS: Record<string, string> = {
+  '--dry-run': 'Print the files that would be created or patched, write nothing',
+  '--force': 'Overwrite an existing component',
+  '--skip-existing': 'Only create the missing files of an existing component',
+  '--all': 'List components of every app in the workspace',
+  '--format <format>': 'List output format: table (default), json, markdown',
+  '--fix': 'Let doctor repair the problems it finds',
+  '--lib <name>': 'Target a library in libs/ instead of an app',
+  '--preset <preset>': 'Built-in templates: minimal, documented (default), strict',
+  '--interactive, -i': 'Ask for the app, type, name and properties step by step',
+  '--file, -f <path>': 'YAML or JSON manifest of the components to apply',
+  '--prune': 'Let apply delete components not declared in cquver.domain.yaml',
+  '--json': 'Print one machine-readable JSON result instead of logs',
+  '--quiet, -q': 'Only print warnings and errors',
+  '--verbose': 'Explain decisions, e.g. why a module import was added',
+  '--debug': 'Also print resolved paths, configuration and watch events',
+};
+
+/** Output options every command accepts */
+const OUTPUT_OPTIONS = ['--quiet, -q', '--verbose', '--debug'];
+
+const TYPE_MESSAGE_ORDER: ComponentType[] = ['event', 'command', 'query', 'service', 'usecase'];
+
+export const COMMANDS: CommandDefinition[] = [
+  {
+    name: 'init',
+    aliases: ['i'],
+    args: [],
+    summary: 'Initialize DDD/CQRS structure',
+    options: ['--dry-run', '--lib <name>', '--json', ...OUTPUT_OPTIONS],
+    examples: ['cquver init user-service', 'cquver user-service init --dry-run'],
+  },
+  {
+    name: 'create',
+    aliases: ['c', 'generate', 'g'],
+    args: ['type', 'name'],
+    summary: 'Generate a new handler',
+    options: [
+      '--interactive, -i',
+      '--dry-run',
+      '--force',
+      '--skip-existing',
+      '--preset <preset>',
+      '--lib <name>',
+      '--json',
+      ...OUTPUT_OPTIONS,
+    ],
+    examples: [
+      'cquver create command CreateUser user-service',
+      'cquver g q GetUser user-service',
+      'cquver user-service create usecase ProcessUserRegistration',
+      'cquver create event UserCreated --lib shared',
+      'cquver user-service create -i',
+      'cquver create command CreateUser --preset strict',
+    ],
+    interactive: true,
+  },
+  {
+    name: 'remove',
+    aliases: [],
+    args: ['type', 'name'],
+    summary: 'Delete a component and unwire it from indexes and module',
+    options: ['--dry-run', '--lib <name>', '--json', ...OUTPUT_OPTIONS],
+    examples: ['cquver remove command CreateUser user-service'],
+  },
+  {
+    name: 'rename',
+    aliases: [],
+    args: ['type', 'name', 'new-name'],
+    summary: 'Rename a component and update all references',
+    options: ['--dry-run', '--lib <name>', '--json', ...OUTPUT_OPTIONS],
+    examples: ['cquver rename command CreateUser RegisterUser user-service'],
+  },
+  {
+    name: 'undo',
+    aliases: [],
+    args: [],
+    summary: 'Roll back the last init or create',
+    options: ['--dry-run', '--json', ...OUTPUT_OPTIONS],
+    appless: true,
+    examples: ['cquver undo', 'cquver undo --dry-run'],
+  },
+  {
+    name: 'list',
+    aliases: [],
+    args: [],
+    summary: 'List all components of an app (--all for every app)',
+    options: ['--all', '--format <format>', '--lib <name>', '--json', ...OUTPUT_OPTIONS],
+    examples: ['cquver list user-service --format markdown', 'cquver list --all --format json'],
+  },
+  {
+    name: 'doctor',
+    aliases: [],
+    args: [],
+    summary: 'Check indexes and module wiring against the filesystem',
+    options: ['--fix', '--dry-run', '--lib <name>', '--json', ...OUTPUT_OPTIONS],
+    examples: ['cquver doctor user-service', 'cquver doctor user-service --fix'],
+  },
+  {
+    name: 'sync',
+    aliases: [],
+    args: [],
+    summary: 'Rebuild all indexes and module wiring from the folders on disk',
+    options: ['--dry-run', '--lib <name>', '--json', ...OUTPUT_OPTIONS],
+    examples: ['cquver sync user-service'],
+  },
+  {
+    name: 'watch',
+    aliases: [],
+    args: [],
+    summary: 'Keep indexes and module wiring in sync while folders change',
+    options: ['--lib <name>', ...OUTPUT_OPTIONS],
+    examples: ['cquver watch user-service'],
+  },
+  {
+    name: 'apply',
+    aliases: [],
+    args: [],
+    summary: 'Reconcile with cquver.domain.yaml, or generate a manifest with -f',
+    options: [
+      '--file, -f <path>',
+      '--prune',
+      '--dry-run',
+      '--force',
+      '--skip-existing',
+      '--preset <preset>',
+      '--lib <name>',
+      '--json',
+      ...OUTPUT_OPTIONS,
+    ],
+    examples: [
+      'cquver user-service apply',
+      'cquver user-service apply --prune --dry-run',
+      'cquver user-service apply -f domain.yaml',
+    ],
+  },
+  {
+    name: 'plan',
+    aliases: [],
+    args: [],
+    summary: 'Compare cquver.domain.yaml with the components, indexes and module',
+    options: ['--prune', '--lib <name>', '--json', ...OUTPUT_OPTIONS],
+    examples: ['cquver user-service plan'],
+  },
+  {
+    name: 'completions',
+    aliases: [],
+    args: ['shell'],
+    summary: 'Print a bash, zsh or fish completion script',
+    options: [],
+    appless: true,
+    examples: ['source <(cquver completions bash)', 'cquver completions fish > cquver.fish'],
+  },
+];
+
+/**
+ * Invalid command line input, the message is meant for the user
+ */
+export class CommandLineError extends CquverError {
+  constructor(message: string) {
+    super('INVALID_ARGUMENTS', message);
+    this.name = 'CommandLineError';
+  }
+}
+
+export interface ParsedCommand {
+  command: CommandDefinition;
+  /** Positional arguments of the command, component type aliases resolved */
+  args: string[];
+  /** App given on the command line, null when it has to be detected */
+  app: string | null;
+}
+
+/**
+ * Finds a command by name or alias
+ */
+export function findCommand(name: string | undefined): CommandDefinition | undefined {
+  return COMMANDS.find((command) => command.name === name || command.aliases.includes(name ?? ''));
+}
+
+/**
+ * Parses `<action> <args...> [app]` as well as `<app> <action> <args...>`.
+ * Interactive commands take no arguments, they are asked for instead.
+ * Component types resolve against the given registry, plugin types included.
+ */
+export function parseCommandLine(
+  positional: string[],
+  interactive = false,
+  types: ComponentTypeRegistry = new ComponentTypeRegistry(),
+): ParsedCommand {
+  const commandIndex = findCommand(positional[0]) ? 0 : findCommand(positional[1]) ? 1 : -1;
+  if (commandIndex === -1) {
+    throw unknownAction(positional);
+  }
+
+  const command = findCommand(positional[commandIndex])!;
+  const rest = positional.slice(commandIndex + 1);
+  const helpHint = `Use "cquver ${command.name} --help" for usage information.`;
+  if (interactive && !command.interactive) {
+    throw new CommandLineError(`The ${command.name} command cannot be run interactively.`);
+  }
+
+  const argCount = interactive ? 0 : command.args.length;
+  const args = rest.slice(0, argCount);
+  const extra = rest.slice(argCount);
+
+  if (args.length < argCount) {
+    const required = formatList(command.args.map((arg) => arg.replace('-', ' ')), 'and');
+    throw new CommandLineError(
+      `${command.name.charAt(0).toUpperCase()}${command.name.slice(1)} command requires ` +
+        `${required}. ${helpHint}`,
+    );
+  }
+
+  let app = commandIndex === 1 ? positional[0] : null;
+  if (command.appless && app !== null) {
+    throw new CommandLineError(`The ${command.name} command does not take an app. ${helpHint}`);
+  }
+  if (app === null && extra.length > 0 && !command.appless) {
+    app = extra.shift()!;
+  }
+  if (extra.length > 0) {
+    throw new CommandLineError(`Unexpected argument "${extra[0]}". ${helpHint}`);
+  }
+
+  if (command.args[0] === 'type' && args.length > 0) {
+    args[0] = resolveType(args[0], types);
+  }
+
+  return { command, args, app };
+}
+
+/**
+ * Resolves a component type or one of its aliases
+ */
+export function resolveType(
+  type: string,
+  types: ComponentTypeRegistry = new ComponentTypeRegistry(),
+): ComponentType {
+  const resolved = types.find(type);
+  if (resolved) {
+    return resolved.name;
+  }
+
+  const names = types.list().map((definition) => definition.name)
+    .sort((a, b) => rankInMessage(a) - rankInMessage(b));
+  const suggestion = findClosest(
+    type,
+    types.list().flatMap((definition) => [definition.name, ...definition.aliases])
+      .filter((t) => t.length > 1),
+  );
+  if (suggestion) {
+    throw new CommandLineError(`Unknown type "${type}". Did you mean "${suggestion}"?`);
+  }
+  throw new CommandLineError(
+    `Type must be ${names.slice(0, -1).map((name) => `"${name}"`).join(', ')}, ` +
+      `or "${names[names.length - 1]}".`,
+  );
+}
+
+/**
+ * Built-in types keep the order the unknown type message has always listed them in
+ */
+function rankInMessage(type: ComponentType): number {
+  const index = TYPE_MESSAGE_ORDER.indexOf(type);
+  return index === -1 ? TYPE_MESSAGE_ORDER.length : index;
+}
+
+function unknownAction(positional: string[]): CommandLineError {
+  const actions = COMMANDS.flatMap((command) => [command.name, ...command.aliases])
+    .filter((action) => action.length > 1);
+
+  for (const word of positional.slice(0, 2)) {
+    const suggestion = findClosest(word, actions);
+    if (suggestion) {
+      return new CommandLineError(`Unknown action "${word}". Did you mean "${suggestion}"?`);
+    }
+  }
+
+  if (positional.length < 2) {
+    return new CommandLineError('Invalid arguments. Use --help for usage information.');
+  }
+  return new CommandLineError(
+    `Action must be ${formatList(COMMANDS.map((command) => `"${command.name}"`), 'or')}.`,
+  );
+}
+
+function formatList(items: string[], conjunction: string): string {
+  return items.length > 1
+    ? `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}`
+    : items.join('');
+}
@@ -0,0 +1,200 @@
+import { basename } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { CommandDefinition, COMMANDS, findCommand, OPTIONS } from './command-parser.ts';
+import {
+  ComponentType,
+  CONFIG_FILE_NAME,
+  ConfigService,
+  TEMPLATE_PRESETS,
+} from './config.service.ts';
+import { INVENTORY_FORMATS, InventoryService } from './inventory.service.ts';
+import { WorkspaceService } from './workspace.service.ts';
+
+export type CompletionShell = 'bash' | 'zsh' | 'fish';
+
+export const COMPLETION_SHELLS: CompletionShell[] = ['bash', 'zsh', 'fish'];
+
+/** Hidden action the completion scripts call to get the candidates for a word */
+export const COMPLETE_ACTION = '__complete';
+
+/** Options followed by a value, e.g. --lib <name> */
+const VALUE_OPTIONS = Object.keys(OPTIONS)
+  .filter((option) => option.includes('<'))
+  .flatMap((option) => getOptionNames(option));
+
+/** Commands whose name argument refers to a component that already exists */
+const EXISTING_COMPONENT_COMMANDS = ['remove', 'rename'];
+
+/**
+ * Suggests the next word of a command line, reading apps and components from the workspace
+ */
+export class CompletionService {
+  constructor(
+    private workspace: WorkspaceService = new WorkspaceService(),
+    private configService: ConfigService = new ConfigService(),
+  ) {}
+
+  /**
+   * Returns the candidates for the word being typed, given the words before it.
+   * Completion must never fail the shell, anything unreadable yields no candidates.
+   */
+  async complete(words: string[], current = '', cwd: string = Deno.cwd()): Promise<string[]> {
+    try {
+      const candidates = current.startsWith('-')
+        ? Object.keys(OPTIONS).flatMap((option) => getOptionNames(option))
+        : await this.completeWord(words, cwd);
+      return candidates.filter((candidate) => candidate.startsWith(current));
+    } catch {
+      return [];
+    }
+  }
+
+  private async completeWord(words: string[], cwd: string): Promise<string[]> {
+    const previous = words[words.length - 1];
+    if (previous === '--lib') {
+      return (await this.workspace.listLibraries()).map((library) => library.name);
+    }
+    if (previous === '--format') {
+      return [...INVENTORY_FORMATS];
+    }
+    if (previous === '--preset') {
+      return [...TEMPLATE_PRESETS];
+    }
+    if (VALUE_OPTIONS.includes(previous)) {
+      return [];
+    }
+
+    const { positional, lib } = splitWords(words);
+    const commandIndex = findCommand(positional[0]) ? 0 : findCommand(positional[1]) ? 1 : -1;
+    const commandNames = COMMANDS.map((command) => command.name);
+
+    if (commandIndex === -1) {
+      return positional.length === 0
+        ? [...commandNames, ...await this.listProjects()]
+        : commandNames;
+    }
+
+    const command = findCommand(positional[commandIndex])!;
+    const args = positional.slice(commandIndex + 1);
+    const appGiven = commandIndex === 1 || lib !== undefined;
+
+    if (args.length < command.args.length) {
+      return await this.completeArgument(
+        command,
+        args,
+        appGiven ? (lib ?? positional[0]) : null,
+        cwd,
+      );
+    }
+    // An app may follow the arguments when it was not given before the action
+    return args.length === command.args.length && !appGiven && !command.appless
+      ? await this.listProjects()
+      : [];
+  }
+
+  private async completeArgument(
+    command: CommandDefinition,
+    args: string[],
+    app: string | null,
+    cwd: string,
+  ): Promise<string[]> {
+    const argument = command.args[args.length];
+
+    const types = await this.configService.getComponentTypes();
+    if (argument === 'type') {
+      return types.listForDisplay().map((definition) => definition.name);
+    }
+    if (argument === 'shell') {
+      return [...COMPLETION_SHELLS];
+    }
+    if (argument === 'name' && EXISTING_COMPONENT_COMMANDS.includes(command.name)) {
+      const type = types.find(args[0]);
+      return type
+        ? await this.listComponents(app ?? await this.workspace.resolveApp(cwd), type.name)
+        : [];
+    }
+    return [];
+  }
+
+  private async listProjects(): Promise<string[]> {
+    return [...await this.workspace.listApps(), ...await this.workspace.listLibraries()]
+      .map((project) => project.name);
+  }
+
+  /**
+   * Lists component folder names, which resolve to the same classes as the names they came from
+   */
+  private async listComponents(app: string, type: ComponentType): Promise<string[]> {
+    const kind = await this.workspace.getProjectKind(app);
+    const configService = new ConfigService(
+      CONFIG_FILE_NAME,
+      kind,
+      await this.workspace.getProjectLocations(),
+    );
+    const inventory = await new InventoryService(configService).listApp(app);
+    return inventory.components
+      .filter((component) => component.type === type)
+      .map((component) => basename(component.path));
+  }
+}
+
+/**
+ * Prints a completion script that asks cquver for the candidates of every word
+ */
+export function generateCompletionScript(shell: CompletionShell): string {
+  switch (shell) {
+    case 'bash':
+      return `# cquver completion for bash, add to ~/.bashrc:
+#   source <(cquver completions bash)
+_cquver() {
+  local IFS=$'\\n'
+  COMPREPLY=($(cquver ${COMPLETE_ACTION} "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null))
+}
+complete -F _cquver cquver
+`;
+    case 'zsh':
+      return `#compdef cquver
+# cquver completion for zsh, add to ~/.zshrc:
+#   source <(cquver completions zsh)
+_cquver() {
+  local -a candidates
+  candidates=(\${(f)"$(cquver ${COMPLETE_ACTION} "\${(@)words[2,CURRENT]}" 2>/dev/null)"})
+  compadd -a candidates
+}
+compdef _cquver cquver
+`;
+    case 'fish':
+      return `# cquver completion for fish, save as ~/.config/fish/completions/cquver.fish:
+#   cquver completions fish > ~/.config/fish/completions/cquver.fish
+complete -c cquver -f -a '(cquver ${COMPLETE_ACTION} (commandline -opc)[2..-1] (commandline -ct) 2>/dev/null)'
+`;
+  }
+}
+
+/**
+ * Separates positional words from options and their values
+ */
+function splitWords(words: string[]): { positional: string[]; lib?: string } {
+  const positional: string[] = [];
+  let lib: string | undefined;
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    if (!word.startsWith('-')) {
+      positional.push(word);
+    } else if (VALUE_OPTIONS.includes(word)) {
+      if (word === '--lib') {
+        lib = words[i + 1];
+      }
+      i++;
+    }
+  }
+
+  return { positional, lib };
+}
+
+/**
+ * Flags of an OPTIONS entry, e.g. "--quiet, -q" gives --quiet and -q
+ */
+function getOptionNames(option: string): string[] {
+  return option.split(', ').map((name) => name.split(' ')[0]);
+}
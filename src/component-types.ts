@@ -0,0 +1,372 @@
+import { resolve, toFileUrl } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { LayerName, TemplatePreset, TypeConfig } from './config.service.ts';
+import { CquverError } from './errors.ts';
+import { TemplateContext } from './template.service.ts';
+import {
+  commandHandlerTemplate,
+  commandIndexTemplate,
+  commandTemplate,
+} from './templates/command.templates.ts';
+import {
+  eventHandlerTemplate,
+  eventIndexTemplate,
+  eventTemplate,
+} from './templates/event.templates.ts';
+import {
+  queryHandlerTemplate,
+  queryIndexTemplate,
+  queryTemplate,
+} from './templates/query.templates.ts';
+import { serviceIndexTemplate, serviceTemplate } from './templates/service.templates.ts';
+import { usecaseIndexTemplate, usecaseTemplate } from './templates/usecase.templates.ts';
+
+/**
+ * How the index of a type folder is built: handlers lists the handler of every component and
+ * re-exports its class, classes lists the main classes
+ */
+export type IndexStrategy = 'handlers' | 'classes';
+
+/**
+ * How a type is wired into the module: providers spreads its index array into the module
+ * providers, none leaves the module alone (e.g. plain specification classes)
+ */
+export type ModuleWiring = 'providers' | 'none';
+
+/**
+ * Built-in content of the component files, project templates still take precedence
+ */
+export interface ComponentTemplates {
+  main: (context: TemplateContext, preset: TemplatePreset) => string;
+  /** Required by the handlers index strategy, unused otherwise */
+  handler?: (context: TemplateContext, preset: TemplatePreset) => string;
+  index: (context: TemplateContext) => string;
+}
+
+/**
+ * A component type, its layer, folder and suffixes are defaults cquver.json can override
+ */
+export interface ComponentTypeDefinition extends TypeConfig {
+  /** Type name on the command line, e.g. command */
+  name: string;
+  /** Short names accepted on the command line, e.g. cmd */
+  aliases: string[];
+  /** Shown next to the name when choosing a type, e.g. domain logic */
+  description: string;
+  /** Manifest section listing components of this type, e.g. commands */
+  plural: string;
+  /** Heading in Markdown listings, e.g. Use Cases */
+  label: string;
+  /** Array exported by the type index, e.g. CommandHandlers */
+  providerArray: string;
+  index: IndexStrategy;
+  module: ModuleWiring;
+  /** Whether manifests and the wizard may give constructor properties */
+  properties: boolean;
+  templates: ComponentTemplates;
+}
+
+/**
+ * A local module listed in the plugins of cquver.json, its default export registers types:
+ *
+ * ```ts
+ * export default {
+ *   register(registry) {
+ *     registry.register({ name: 'policy', ... });
+ *   },
+ * };
+ * ```
+ */
+export interface CquverPlugin {
+  register: (registry: ComponentTypeRegistry) => void;
+}
+
+/** The built-in types, in the order they are wired into the module */
+export const BUILT_IN_TYPES: ComponentTypeDefinition[] = [
+  {
+    name: 'command',
+    aliases: ['cmd'],
+    description: 'write operation that changes state',
+    plural: 'commands',
+    label: 'Commands',
+    layer: 'application',
+    folder: 'commands',
+    suffix: 'Command',
+    fileSuffix: 'command',
+    providerArray: 'CommandHandlers',
+    index: 'handlers',
+    module: 'providers',
+    properties: true,
+    templates: {
+      main: (context, preset) => commandTemplate(context.className, context.props, preset),
+      handler: (context, preset) =>
+        commandHandlerTemplate(
+          context.className,
+          context.handlerName,
+          context.fileName,
+          context.fileSuffix,
+          preset,
+        ),
+      index: (context) =>
+        commandIndexTemplate(
+          context.className,
+          context.handlerName,
+          context.fileName,
+          context.fileSuffix,
+          context.handlerFileSuffix,
+        ),
+    },
+  },
+  {
+    name: 'event',
+    aliases: ['e'],
+    description: 'domain event for side effects',
+    plural: 'events',
+    label: 'Events',
+    layer: 'application',
+    folder: 'events',
+    suffix: 'Event',
+    fileSuffix: 'event',
+    providerArray: 'EventHandlers',
+    index: 'handlers',
+    module: 'providers',
+    properties: true,
+    templates: {
+      main: (context, preset) => eventTemplate(context.className, context.props, preset),
+      handler: (context, preset) =>
+        eventHandlerTemplate(
+          context.className,
+          context.handlerName,
+          context.fileName,
+          context.fileSuffix,
+          preset,
+        ),
+      index: (context) =>
+        eventIndexTemplate(
+          context.className,
+          context.handlerName,
+          context.fileName,
+          context.fileSuffix,
+          context.handlerFileSuffix,
+        ),
+    },
+  },
+  {
+    name: 'query',
+    aliases: ['q'],
+    description: 'read operation that returns data',
+    plural: 'queries',
+    label: 'Queries',
+    layer: 'application',
+    folder: 'queries',
+    suffix: 'Query',
+    fileSuffix: 'query',
+    providerArray: 'QueryHandlers',
+    index: 'handlers',
+    module: 'providers',
+    properties: true,
+    templates: {
+      main: (context, preset) => queryTemplate(context.className, context.props, preset),
+      handler: (context, preset) =>
+        queryHandlerTemplate(
+          context.className,
+          context.handlerName,
+          context.fileName,
+          context.fileSuffix,
+          preset,
+        ),
+      index: (context) =>
+        queryIndexTemplate(
+          context.className,
+          context.handlerName,
+          context.fileName,
+          context.fileSuffix,
+          context.handlerFileSuffix,
+        ),
+    },
+  },
+  {
+    name: 'usecase',
+    aliases: ['u'],
+    description: 'application service orchestrating operations',
+    plural: 'usecases',
+    label: 'Use Cases',
+    layer: 'application',
+    folder: 'usecases',
+    suffix: 'UseCase',
+    fileSuffix: 'usecase',
+    providerArray: 'UseCases',
+    index: 'classes',
+    module: 'providers',
+    properties: false,
+    templates: {
+      main: (context, preset) => usecaseTemplate(context.className, preset),
+      index: (context) =>
+        usecaseIndexTemplate(context.className, context.fileName, context.fileSuffix),
+    },
+  },
+  {
+    name: 'service',
+    aliases: ['s'],
+    description: 'domain logic',
+    plural: 'services',
+    label: 'Services',
+    layer: 'domain',
+    folder: 'services',
+    suffix: 'Service',
+    fileSuffix: 'service',
+    providerArray: 'Services',
+    index: 'classes',
+    module: 'providers',
+    properties: false,
+    templates: {
+      main: (context, preset) => serviceTemplate(context.className, preset),
+      index: (context) =>
+        serviceIndexTemplate(context.className, context.fileName, context.fileSuffix),
+    },
+  },
+];
+
+/** Built-in types in the order they are offered and listed, plugin types follow */
+const DISPLAY_ORDER = ['command', 'query', 'event', 'service', 'usecase'];
+
+const LAYERS: LayerName[] = ['application', 'domain', 'infrastructure'];
+const INDEX_STRATEGIES: IndexStrategy[] = ['handlers', 'classes'];
+const MODULE_WIRINGS: ModuleWiring[] = ['providers', 'none'];
+
+/**
+ * The component types cquver can generate, the built-in ones plus those of plugins
+ */
+export class ComponentTypeRegistry {
+  private definitions = new Map<string, ComponentTypeDefinition>();
+
+  constructor(definitions: ComponentTypeDefinition[] = BUILT_IN_TYPES) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * Adds a type, its name and aliases must not be taken by another type
+   */
+  register(definition: ComponentTypeDefinition): void {
+    const invalid = (message: string) =>
+      new CquverError('INVALID_CONFIG', `Invalid component type "${definition.name}": ${message}`);
+
+    if (!/^[a-z][a-z0-9-]*$/.test(definition.name ?? '')) {
+      throw new CquverError(
+        'INVALID_CONFIG',
+        `Invalid component type name "${definition.name}", use lowercase letters, digits and -`,
+      );
+    }
+    for (const name of [definition.name, ...(definition.aliases ?? [])]) {
+      const taken = this.find(name);
+      if (taken) {
+        throw invalid(`"${name}" is already used by the ${taken.name} type`);
+      }
+    }
+    if (!LAYERS.includes(definition.layer)) {
+      throw invalid(`layer must be one of: ${LAYERS.join(', ')}`);
+    }
+    for (const key of ['folder', 'suffix', 'fileSuffix', 'plural', 'label'] as const) {
+      const value: unknown = definition[key];
+      if (typeof value !== 'string' || !value.trim()) {
+        throw invalid(`${key} must be a non-empty string`);
+      }
+    }
+    if (!/^[A-Za-z_$][\w$]*$/.test(definition.providerArray ?? '')) {
+      throw invalid('providerArray must be an identifier, e.g. Policies');
+    }
+    if (!INDEX_STRATEGIES.includes(definition.index)) {
+      throw invalid(`index must be one of: ${INDEX_STRATEGIES.join(', ')}`);
+    }
+    if (!MODULE_WIRINGS.includes(definition.module)) {
+      throw invalid(`module must be one of: ${MODULE_WIRINGS.join(', ')}`);
+    }
+    if (
+      typeof definition.templates?.main !== 'function' ||
+      typeof definition.templates.index !== 'function'
+    ) {
+      throw invalid('templates.main and templates.index must be functions');
+    }
+    if (definition.index === 'handlers' && typeof definition.templates.handler !== 'function') {
+      throw invalid('templates.handler is required by the handlers index');
+    }
+
+    this.definitions.set(definition.name, { ...definition, aliases: definition.aliases ?? [] });
+  }
+
+  /**
+   * Returns a registered type by name
+   */
+  get(type: string): ComponentTypeDefinition {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new CquverError('INVALID_ARGUMENTS', `Unknown component type "${type}"`);
+    }
+    return definition;
+  }
+
+  /**
+   * Finds a type by name or alias
+   */
+  find(nameOrAlias: string): ComponentTypeDefinition | undefined {
+    return this.definitions.get(nameOrAlias) ??
+      this.list().find((definition) => definition.aliases.includes(nameOrAlias));
+  }
+
+  /**
+   * Lists all types in registration order, built-in types first. This is the order their
+   * imports and providers are added to the module.
+   */
+  list(): ComponentTypeDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Lists all types in the order they are offered and listed: commands, queries, events,
+   * services, use cases, then plugin types
+   */
+  listForDisplay(): ComponentTypeDefinition[] {
+    const rank = (name: string) =>
+      DISPLAY_ORDER.includes(name) ? DISPLAY_ORDER.indexOf(name) : DISPLAY_ORDER.length;
+    return this.list().sort((a, b) => rank(a.name) - rank(b.name));
+  }
+}
+
+/**
+ * Returns the folder layout a type defaults to
+ */
+export function getDefaultTypeConfig(definition: ComponentTypeDefinition): TypeConfig {
+  const { layer, folder, suffix, fileSuffix } = definition;
+  return { layer, folder, suffix, fileSuffix };
+}
+
+/**
+ * Imports a plugin module and lets it register its types
+ */
+export async function loadPlugin(registry: ComponentTypeRegistry, path: string): Promise<void> {
+  let plugin: Partial<CquverPlugin> | undefined;
+  try {
+    plugin = (await import(toFileUrl(resolve(path)).href)).default;
+  } catch (error) {
+    throw new CquverError(
+      'INVALID_CONFIG',
+      `Could not load plugin ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (typeof plugin?.register !== 'function') {
+    throw new CquverError(
+      'INVALID_CONFIG',
+      `Plugin ${path} must export default { register(registry) { ... } }`,
+    );
+  }
+  try {
+    plugin.register(registry);
+  } catch (error) {
+    if (error instanceof CquverError) {
+      throw new CquverError(error.code, `${error.message} (in plugin ${path})`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,405 @@
+import { basename, dirname, join } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { CodeStyle, loadCodeStyle } from './code-style.ts';
+import {
+  BUILT_IN_TYPES,
+  ComponentTypeRegistry,
+  getDefaultTypeConfig,
+  loadPlugin,
+} from './component-types.ts';
+import { CquverError } from './errors.ts';
+
+/** Name of a registered component type, e.g. command, see component-types.ts */
+export type ComponentType = string;
+
+export type LayerName = 'application' | 'domain' | 'infrastructure';
+
+/**
+ * Generation target, an app in appsDir, a library in libsDir or a standalone
+ * (non-monorepo) project rooted at the workspace
+ */
+export type ProjectKind = 'app' | 'library' | 'standalone';
+
+export const CONFIG_FILE_NAME = 'cquver.json';
+
+/**
+ * Where nest-cli.json puts a project, which may differ from <appsDir>/<name>
+ */
+export interface ProjectLocation {
+  root: string;
+  /** Source folder, <root>/<sourceDir> when nest-cli.json has none */
+  sourceRoot?: string;
+}
+
+/**
+ * Built-in template style: minimal (no comments or logs), documented (commented examples)
+ * or strict (typed results, Nest Logger, no any)
+ */
+export type TemplatePreset = 'minimal' | 'documented' | 'strict';
+
+export const TEMPLATE_PRESETS: TemplatePreset[] = ['minimal', 'documented', 'strict'];
+
+/**
+ * Built-in formatter run on the files a generation touched, none leaves them as generated
+ */
+export type HookFormatter = 'none' | 'deno' | 'prettier';
+
+export const HOOK_FORMATTERS: HookFormatter[] = ['none', 'deno', 'prettier'];
+
+/**
+ * Shell commands run around create and apply, from the workspace root.
+ * `{files}` is replaced with the created and modified files, also given in $CQUVER_FILES.
+ */
+export interface HooksConfig {
+  /** Run before anything is written, a failing command cancels the generation */
+  preGenerate: string[];
+  /** Run on the touched files before the postGenerate commands */
+  formatter: HookFormatter;
+  /** Run in order after writing, the first failing command stops the rest */
+  postGenerate: string[];
+}
+
+export interface TypeConfig {
+  /** Layer the type folder lives in */
+  layer: LayerName;
+  /** Folder holding all components of this type (e.g. commands) */
+  folder: string;
+  /** Class name suffix (e.g. Command -> CreateUserCommand) */
+  suffix: string;
+  /** Main file suffix (e.g. command -> create-user.command.ts) */
+  fileSuffix: string;
+}
+
+export interface AppConfig {
+  /** Folder containing all NestJS apps */
+  appsDir: string;
+  /** Folder containing all NestJS libraries */
+  libsDir: string;
+  /** Source folder inside each app */
+  sourceDir: string;
+  /** Plain `nest new` project, sources live in ./<sourceDir> instead of an app folder */
+  standalone: boolean;
+  /** Folder names of the architecture layers */
+  layers: Record<LayerName, string>;
+  /** Folder, suffix and layer settings per component type */
+  types: Record<ComponentType, TypeConfig>;
+  /** File suffix of generated handlers (e.g. handler -> create-user.handler.ts) */
+  handlerFileSuffix: string;
+  /** Module file to wire providers into, `{app}` is replaced with the app name */
+  moduleFile: string;
+  /** Built-in templates to generate from */
+  preset: TemplatePreset;
+  /** Commands run before and after generating */
+  hooks: HooksConfig;
+  /** Project folder from nest-cli.json, replaces <appsDir>/<app> */
+  root?: string;
+  /** Source folder from nest-cli.json, replaces <root>/<sourceDir> */
+  sourceRoot?: string;
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+export type AppConfigOverrides = DeepPartial<AppConfig>;
+
+export interface CquverConfig extends AppConfigOverrides {
+  /** Local modules registering extra component types, relative to cquver.json */
+  plugins?: string[];
+  /** Per-app overrides, keyed by app name */
+  apps?: Record<string, AppConfigOverrides>;
+  /** Per-library overrides, keyed by library name */
+  libs?: Record<string, AppConfigOverrides>;
+}
+
+export const DEFAULT_CONFIG: AppConfig = {
+  appsDir: 'apps',
+  libsDir: 'libs',
+  sourceDir: 'src',
+  standalone: false,
+  layers: {
+    application: 'application',
+    domain: 'domain',
+    infrastructure: 'infrastructure',
+  },
+  types: Object.fromEntries(
+    BUILT_IN_TYPES.map((definition) => [definition.name, getDefaultTypeConfig(definition)]),
+  ),
+  handlerFileSuffix: 'handler',
+  moduleFile: '{app}.module.ts',
+  preset: 'documented',
+  hooks: {
+    preGenerate: [],
+    formatter: 'none',
+    postGenerate: [],
+  },
+};
+
+/** Defaults of standalone projects, applied below the workspace settings */
+const STANDALONE_DEFAULTS: AppConfigOverrides = {
+  standalone: true,
+  moduleFile: 'app.module.ts',
+};
+
+export class ConfigService {
+  private workspaceConfig?: CquverConfig;
+  private componentTypes?: ComponentTypeRegistry;
+  private codeStyle?: CodeStyle;
+
+  constructor(
+    private configPath: string = CONFIG_FILE_NAME,
+    readonly kind: ProjectKind = 'app',
+    private locations: Record<string, ProjectLocation> = {},
+  ) {}
+
+  /**
+   * Resolves the effective configuration for an app (defaults < workspace < app overrides).
+   * For libraries the returned appsDir is the libs folder, so all paths resolve into libs/<lib>.
+   * Projects listed in nest-cli.json are rooted where it puts them.
+   */
+  async getAppConfig(appName: string): Promise<AppConfig> {
+    const { apps, libs, plugins: _plugins, ...workspace } = await this.loadWorkspaceConfig();
+    const standalone = this.kind === 'standalone' || workspace.standalone === true;
+    const defaults = standalone
+      ? mergeConfig(await this.getDefaults(), STANDALONE_DEFAULTS)
+      : await this.getDefaults();
+    const config = mergeConfig(defaults, workspace);
+
+    if (standalone) {
+      return this.validate(config);
+    }
+    const location = Object.hasOwn(this.locations, appName) ? this.locations[appName] : {};
+    if (this.kind === 'library') {
+      const libConfig = libs?.[appName] ? mergeConfig(config, libs[appName]) : config;
+      return this.validate({ ...libConfig, appsDir: libConfig.libsDir, ...location });
+    }
+    const appConfig = apps?.[appName] ? mergeConfig(config, apps[appName]) : config;
+    return this.validate({ ...appConfig, ...location });
+  }
+
+  /**
+   * Returns the configuration of another kind of project, read from the same cquver.json
+   */
+  forProject(
+    kind: ProjectKind,
+    locations: Record<string, ProjectLocation> = this.locations,
+  ): ConfigService {
+    return new ConfigService(this.configPath, kind, locations);
+  }
+
+  /**
+   * Describes the target for messages, e.g. App "user-service" or Library "shared"
+   */
+  describeProject(appName: string): string {
+    const label = { app: 'App', library: 'Library', standalone: 'Project' }[this.kind];
+    return `${label} "${appName}"`;
+  }
+
+  /**
+   * Resolves the workspace-wide configuration, without per-app overrides
+   */
+  async getWorkspaceConfig(): Promise<AppConfig> {
+    const config = await this.loadWorkspaceConfig();
+    const { apps: _apps, libs: _libs, plugins: _plugins, ...workspace } = config;
+    return mergeConfig(await this.getDefaults(), workspace);
+  }
+
+  /**
+   * Returns the built-in component types plus those registered by the plugins in cquver.json
+   */
+  async getComponentTypes(): Promise<ComponentTypeRegistry> {
+    if (!this.componentTypes) {
+      const { plugins = [] } = await this.loadWorkspaceConfig();
+      const registry = new ComponentTypeRegistry();
+      for (const plugin of plugins) {
+        await loadPlugin(registry, join(dirname(this.configPath), plugin));
+      }
+      this.componentTypes = registry;
+    }
+    return this.componentTypes;
+  }
+
+  /**
+   * Returns the code style of the workspace from the .editorconfig and .prettierrc next to
+   * cquver.json, generated files are written in it
+   */
+  async getCodeStyle(): Promise<CodeStyle> {
+    if (!this.codeStyle) {
+      this.codeStyle = await loadCodeStyle(dirname(this.configPath));
+    }
+    return this.codeStyle;
+  }
+
+  /**
+   * Returns the defaults, including the folder layout of plugin types
+   */
+  private async getDefaults(): Promise<AppConfig> {
+    const types = (await this.getComponentTypes()).list();
+    return {
+      ...DEFAULT_CONFIG,
+      types: Object.fromEntries(
+        types.map((definition) => [definition.name, getDefaultTypeConfig(definition)]),
+      ),
+    };
+  }
+
+  /**
+   * Rejects values the generator cannot work with
+   */
+  private async validate(config: AppConfig): Promise<AppConfig> {
+    const names = (await this.getComponentTypes()).list().map((definition) => definition.name);
+    for (const type of Object.keys(config.types)) {
+      if (!names.includes(type)) {
+        throw new CquverError(
+          'INVALID_CONFIG',
+          `Unknown component type "${type}" in ${this.configPath}, ` +
+            `use one of: ${names.join(', ')} or register it with a plugin`,
+        );
+      }
+      const typeConfig = config.types[type];
+      if (!Object.hasOwn(config.layers, typeConfig.layer)) {
+        throw new CquverError(
+          'INVALID_CONFIG',
+          `Invalid types.${type}.layer "${typeConfig.layer}" in ${this.configPath}, ` +
+            `use one of: ${Object.keys(config.layers).join(', ')}`,
+        );
+      }
+      for (const key of ['folder', 'suffix', 'fileSuffix'] as const) {
+        this.requireString(`types.${type}.${key}`, typeConfig[key]);
+      }
+    }
+    this.requireString('moduleFile', config.moduleFile);
+    if (!TEMPLATE_PRESETS.includes(config.preset)) {
+      throw new CquverError(
+        'INVALID_CONFIG',
+        `Invalid preset "${config.preset}" in ${this.configPath}, ` +
+          `use one of: ${TEMPLATE_PRESETS.join(', ')}`,
+      );
+    }
+    if (!HOOK_FORMATTERS.includes(config.hooks.formatter)) {
+      throw new CquverError(
+        'INVALID_CONFIG',
+        `Invalid hooks.formatter "${config.hooks.formatter}" in ${this.configPath}, ` +
+          `use one of: ${HOOK_FORMATTERS.join(', ')}`,
+      );
+    }
+    for (const hook of ['preGenerate', 'postGenerate'] as const) {
+      const commands: unknown = config.hooks[hook];
+      if (!Array.isArray(commands) || commands.some((command) => typeof command !== 'string')) {
+        throw new CquverError(
+          'INVALID_CONFIG',
+          `Invalid hooks.${hook} in ${this.configPath}, use a list of shell commands`,
+        );
+      }
+    }
+    return config;
+  }
+
+  private requireString(key: string, value: unknown): void {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new CquverError(
+        'INVALID_CONFIG',
+        `Invalid ${key} in ${this.configPath}, use a non-empty string`,
+      );
+    }
+  }
+
+  /**
+   * Reads cquver.json once, an absent file means defaults only
+   */
+  private async loadWorkspaceConfig(): Promise<CquverConfig> {
+    if (this.workspaceConfig) {
+      return this.workspaceConfig;
+    }
+
+    let raw: string;
+    try {
+      raw = await Deno.readTextFile(this.configPath);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        this.workspaceConfig = {};
+        return this.workspaceConfig;
+      }
+      throw error;
+    }
+
+    try {
+      this.workspaceConfig = JSON.parse(raw) as CquverConfig;
+    } catch (error) {
+      throw new CquverError(
+        'INVALID_CONFIG',
+        `Invalid ${this.configPath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return this.workspaceConfig;
+  }
+}
+
+/**
+ * Returns the root folder of an app (e.g. apps/user-service, or . for standalone projects)
+ */
+export function getAppPath(config: AppConfig, appName: string): string {
+  return config.root ?? (config.standalone ? '.' : join(config.appsDir, appName));
+}
+
+/**
+ * Returns the source root of an app (e.g. apps/user-service/src)
+ */
+export function getAppSourcePath(config: AppConfig, appName: string): string {
+  return config.sourceRoot ?? join(getAppPath(config, appName), config.sourceDir);
+}
+
+/**
+ * Returns the folder holding all components of a type (e.g. apps/user-service/src/application/commands)
+ */
+export function getTypePath(config: AppConfig, appName: string, type: ComponentType): string {
+  const typeConfig = config.types[type];
+  return join(
+    getAppSourcePath(config, appName),
+    config.layers[typeConfig.layer],
+    typeConfig.folder,
+  );
+}
+
+/**
+ * Returns the import path of a type folder relative to the app source root
+ */
+export function getTypeImportPath(config: AppConfig, type: ComponentType): string {
+  const typeConfig = config.types[type];
+  return `./${config.layers[typeConfig.layer]}/${typeConfig.folder}`;
+}
+
+/**
+ * Finds the component type configured with the given folder name
+ */
+export function findTypeByFolder(config: AppConfig, typeFolder: string): ComponentType | null {
+  const entry = Object.entries(config.types).find(([, typeConfig]) =>
+    typeConfig.folder === typeFolder
+  );
+  return entry ? entry[0] as ComponentType : null;
+}
+
+/**
+ * Returns the module file name for an app (e.g. user-service.module.ts). Nest names the module
+ * after the project folder, which nest-cli.json may name differently.
+ */
+export function getModuleFileName(config: AppConfig, appName: string): string {
+  return config.moduleFile.replaceAll('{app}', config.root ? basename(config.root) : appName);
+}
+
+function mergeConfig(base: AppConfig, overrides: AppConfigOverrides): AppConfig {
+  return deepMerge(base, overrides) as AppConfig;
+}
+
+function deepMerge(base: unknown, overrides: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) {
+    return overrides === undefined ? base : overrides;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    result[key] = deepMerge(base[key], value);
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,113 @@
+type DiffLine = { kind: ' ' | '-' | '+'; text: string };
+
+/**
+ * Creates a unified diff between two versions of a file
+ * Example: createUnifiedDiff('index.ts', 'a\n', 'a\nb\n') -> '--- a/index.ts\n+++ b/index.ts\n@@ -1 +1,2 @@ ...'
+ */
+export function createUnifiedDiff(
+  path: string,
+  before: string,
+  after: string,
+  context = 3,
+): string {
+  const lines = diffLines(splitLines(before), splitLines(after));
+  if (lines.every((line) => line.kind === ' ')) {
+    return '';
+  }
+
+  let output = `--- ${before ? `a/${path}` : '/dev/null'}\n+++ b/${path}\n`;
+
+  for (const [start, end] of groupHunks(lines, context)) {
+    const hunk = lines.slice(start, end);
+    const oldStart = lines.slice(0, start).filter((line) => line.kind !== '+').length;
+    const newStart = lines.slice(0, start).filter((line) => line.kind !== '-').length;
+    const oldCount = hunk.filter((line) => line.kind !== '+').length;
+    const newCount = hunk.filter((line) => line.kind !== '-').length;
+
+    output += `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@\n`;
+    for (const line of hunk) {
+      output += `${line.kind}${line.text}\n`;
+    }
+  }
+
+  return output;
+}
+
+function splitLines(content: string): string[] {
+  if (!content) {
+    return [];
+  }
+  const lines = content.split('\n');
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Computes a line diff based on the longest common subsequence
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const lcs: number[][] = Array.from(
+    { length: before.length + 1 },
+    () => new Array(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.push({ kind: ' ', text: before[i++] });
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ kind: '-', text: before[i++] });
+    } else {
+      result.push({ kind: '+', text: after[j++] });
+    }
+  }
+  while (i < before.length) {
+    result.push({ kind: '-', text: before[i++] });
+  }
+  while (j < after.length) {
+    result.push({ kind: '+', text: after[j++] });
+  }
+  return result;
+}
+
+/**
+ * Groups changed lines with their surrounding context into [start, end) hunk ranges
+ */
+function groupHunks(lines: DiffLine[], context: number): Array<[number, number]> {
+  const hunks: Array<[number, number]> = [];
+
+  lines.forEach((line, index) => {
+    if (line.kind === ' ') {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  return hunks;
+}
+
+function formatRange(start: number, count: number): string {
+  // Unified diff ranges are 1-based, empty ranges point at the line before
+  const line = count === 0 ? start : start + 1;
+  return count === 1 ? `${line}` : `${line},${count}`;
+}
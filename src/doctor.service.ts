@@ -0,0 +1,189 @@
+import { basename, join } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import {
+  AppConfig,
+  ComponentType,
+  ConfigService,
+  getAppSourcePath,
+  getModuleFileName,
+  getTypeImportPath,
+  getTypePath,
+} from './config.service.ts';
+import { FileWriterService } from './file-writer.service.ts';
+import { Logger } from './logger.ts';
+import { ComponentTypeDefinition } from './component-types.ts';
+import { ModuleManagerService } from './module-manager.service.ts';
+
+export interface DoctorIssue {
+  /** File the problem was found in */
+  file: string;
+  message: string;
+  /** Type index to regenerate, or null when the module wiring is broken */
+  type: ComponentType | null;
+}
+
+/**
+ * Compares the components on disk with the type indexes and module wiring
+ */
+export class DoctorService {
+  private moduleManager: ModuleManagerService;
+
+  constructor(
+    private configService: ConfigService = new ConfigService(),
+    private fileWriter: FileWriterService = new FileWriterService(),
+    logger: Logger = new Logger(),
+  ) {
+    this.moduleManager = new ModuleManagerService(configService, fileWriter, logger);
+  }
+
+  /**
+   * Reports every mismatch between disk, type indexes and module file
+   */
+  async diagnose(appName: string): Promise<DoctorIssue[]> {
+    const config = await this.configService.getAppConfig(appName);
+    const types = await this.configService.getComponentTypes();
+    const components = await this.moduleManager.getComponents(appName);
+    const issues: DoctorIssue[] = [];
+
+    for (const definition of types.listForDisplay()) {
+      const ofType = components.filter((c) => c.type === definition.name);
+      issues.push(...await this.diagnoseTypeIndex(config, appName, definition, ofType));
+    }
+    issues.push(
+      ...await this.diagnoseModule(
+        config,
+        appName,
+        types.list().filter((definition) => definition.module === 'providers'),
+      ),
+    );
+
+    return issues;
+  }
+
+  /**
+   * Regenerates the indexes and module wiring behind the given issues
+   */
+  async fix(appName: string, issues: DoctorIssue[]): Promise<void> {
+    const config = await this.configService.getAppConfig(appName);
+    const definitions = (await this.configService.getComponentTypes()).list();
+    const types = new Set(issues.map((issue) => issue.type).filter((type) => type !== null));
+
+    if (issues.some((issue) => issue.type === null)) {
+      // The module imports every wired type index, make sure they all exist
+      for (const { name: type } of definitions.filter((d) => d.module === 'providers')) {
+        if (!(await this.fileWriter.exists(join(getTypePath(config, appName, type), 'index.ts')))) {
+          types.add(type);
+        }
+      }
+    }
+
+    for (const type of definitions.map((d) => d.name).filter((t) => types.has(t))) {
+      await this.moduleManager.reindexType(appName, type);
+    }
+    if (issues.some((issue) => issue.type === null)) {
+      await this.moduleManager.updateServiceModule(appName);
+    }
+  }
+
+  private async diagnoseTypeIndex(
+    config: AppConfig,
+    appName: string,
+    { name: type, providerArray: arrayName }: ComponentTypeDefinition,
+    components: Array<{ name: string; handler?: string; path: string }>,
+  ): Promise<DoctorIssue[]> {
+    const typePath = getTypePath(config, appName, type);
+    const indexPath = join(typePath, 'index.ts');
+    const issues: DoctorIssue[] = [];
+    const issue = (message: string) => issues.push({ file: indexPath, message, type });
+
+    let content: string;
+    try {
+      content = await this.fileWriter.readTextFile(indexPath);
+    } catch {
+      if (components.length > 0) {
+        issue(`index is missing, ${components.length} ${type} folder(s) are not registered`);
+      }
+      return issues;
+    }
+
+    const arrayMatch = content.match(
+      new RegExp(`export const ${arrayName}\\s*=\\s*\\[([^\\]]*)\\]`),
+    );
+    if (!arrayMatch) {
+      issue(`${arrayName} array is missing`);
+      return issues;
+    }
+    const registered = arrayMatch[1].split(',').map((entry) => entry.trim()).filter(Boolean);
+
+    // Components on disk must be registered
+    const providers = components.map((c) => c.handler ?? c.name);
+    components.forEach((component, i) => {
+      if (!registered.includes(providers[i])) {
+        issue(`${providers[i]} (./${basename(component.path)}) is missing from ${arrayName}`);
+      }
+    });
+
+    // Registered entries must still exist
+    for (const entry of registered) {
+      if (!providers.includes(entry)) {
+        issue(`${arrayName} lists ${entry}, which was not found on disk`);
+      }
+    }
+
+    // Relative imports must point at existing folders
+    const importPaths = new Set(
+      [...content.matchAll(/from\s*['"](\.\/[^'"]+)['"]/g)].map((match) => match[1]),
+    );
+    for (const importPath of importPaths) {
+      if (!(await this.fileWriter.exists(join(typePath, importPath)))) {
+        issue(`imports ${importPath}, which does not exist`);
+      }
+    }
+
+    return issues;
+  }
+
+  private async diagnoseModule(
+    config: AppConfig,
+    appName: string,
+    wired: ComponentTypeDefinition[],
+  ): Promise<DoctorIssue[]> {
+    const modulePath = join(getAppSourcePath(config, appName), getModuleFileName(config, appName));
+    const issues: DoctorIssue[] = [];
+    const issue = (message: string) => issues.push({ file: modulePath, message, type: null });
+
+    let content: string;
+    try {
+      content = await this.fileWriter.readTextFile(modulePath);
+    } catch {
+      issue('module file is missing');
+      return issues;
+    }
+
+    for (const { name: type, providerArray: arrayName } of wired) {
+      const importPath = getTypeImportPath(config, type);
+      const importPattern = new RegExp(
+        `import\\s*\\{[^}]*\\b${arrayName}\\b[^}]*\\}\\s*from\\s*['"]${
+          importPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        }['"]`,
+      );
+
+      if (!importPattern.test(content)) {
+        issue(`${arrayName} is not imported from '${importPath}'`);
+      } else {
+        const indexPath = join(getTypePath(config, appName, type), 'index.ts');
+        if (!(await this.fileWriter.exists(indexPath))) {
+          issues.push({
+            file: indexPath,
+            message: `index is missing, the module imports ${arrayName} from it`,
+            type,
+          });
+        }
+      }
+      if (!content.includes(`...${arrayName}`)) {
+        issue(`providers is missing ...${arrayName}`);
+      }
+    }
+
+    return issues;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Stable error codes for scripts reading `--json` output
+ */
+export type ErrorCode =
+  | 'INVALID_ARGUMENTS'
+  | 'INVALID_CONFIG'
+  | 'INVALID_MANIFEST'
+  | 'APP_NOT_FOUND'
+  | 'APP_AMBIGUOUS'
+  | 'COMPONENT_EXISTS'
+  | 'COMPONENT_NOT_FOUND'
+  | 'DOCTOR_ISSUES'
+  | 'NOTHING_TO_UNDO'
+  | 'UNDO_CONFLICT'
+  | 'CANCELLED'
+  | 'HOOK_FAILED'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * An expected failure, the message is meant for the user
+ */
+export class CquverError extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'CquverError';
+  }
+}
+
+/**
+ * Returns the error code of any thrown value, unexpected errors are UNKNOWN_ERROR
+ */
+export function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof CquverError ? error.code : 'UNKNOWN_ERROR';
+}
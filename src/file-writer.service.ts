@@ -0,0 +1,247 @@
+import { basename, dirname, join } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { createUnifiedDiff } from './diff.ts';
+import { ensureDir } from './utils.ts';
+
+export type FileChangeAction = 'create' | 'overwrite' | 'patch';
+
+export interface FileChange {
+  path: string;
+  action: FileChangeAction;
+  /** Content before the change, null when the file did not exist */
+  previousContent: string | null;
+  content: string;
+}
+
+/**
+ * Performs all writes of a generation run and records them as a plan.
+ * In dry-run mode nothing touches disk, later reads see the planned content.
+ */
+export class FileWriterService {
+  readonly changes: FileChange[] = [];
+  readonly createdDirectories: string[] = [];
+  readonly removedPaths: string[] = [];
+  private patchedPaths = new Set<string>();
+
+  constructor(readonly dryRun = false) {}
+
+  /**
+   * Creates a directory recursively, returns false if it already existed.
+   * Missing parents are recorded as created too, so undo can remove them again.
+   */
+  async ensureDir(path: string): Promise<boolean> {
+    if (this.createdDirectories.includes(path) || await this.existsOnDisk(path)) {
+      return false;
+    }
+
+    const missing = [path];
+    for (let parent = dirname(path); parent !== dirname(parent); parent = dirname(parent)) {
+      if (this.createdDirectories.includes(parent) || await this.existsOnDisk(parent)) {
+        break;
+      }
+      missing.unshift(parent);
+    }
+
+    if (!this.dryRun) {
+      await ensureDir(path);
+    }
+    // Concurrent calls may have recorded the same parents meanwhile
+    this.createdDirectories.push(
+      ...missing.filter((dir) => !this.createdDirectories.includes(dir)),
+    );
+    return true;
+  }
+
+  /**
+   * Checks whether a file or directory exists, including paths planned by this run
+   */
+  async exists(path: string): Promise<boolean> {
+    if (this.isRemoved(path)) {
+      return false;
+    }
+    const planned = [...this.createdDirectories, ...this.changes.map((c) => c.path)];
+    if (this.dryRun && planned.some((plannedPath) => this.isInside(plannedPath, path))) {
+      return true;
+    }
+    return await this.existsOnDisk(path);
+  }
+
+  /**
+   * Reads a file, including content planned by this run
+   */
+  async readTextFile(path: string): Promise<string> {
+    if (this.isRemoved(path)) {
+      throw new Deno.errors.NotFound(`Removed by this run: ${path}`);
+    }
+    const change = this.dryRun ? this.changes.find((c) => c.path === path) : undefined;
+    return change ? change.content : await Deno.readTextFile(path);
+  }
+
+  /**
+   * Lists a directory, including entries planned and without entries removed by this run
+   */
+  async readDir(path: string): Promise<Deno.DirEntry[]> {
+    const entries: Deno.DirEntry[] = [];
+    try {
+      for await (const entry of Deno.readDir(path)) {
+        if (!this.isRemoved(join(path, entry.name))) {
+          entries.push(entry);
+        }
+      }
+    } catch (error) {
+      if (!(this.dryRun && error instanceof Deno.errors.NotFound && await this.exists(path))) {
+        throw error;
+      }
+    }
+
+    if (this.dryRun) {
+      const planned = [
+        ...this.createdDirectories.map((dir) => ({ path: dir, isDirectory: true })),
+        ...this.changes.map((change) => ({ path: change.path, isDirectory: false })),
+      ];
+      for (const entry of planned) {
+        const name = basename(entry.path);
+        if (dirname(entry.path) === path && !entries.some((e) => e.name === name)) {
+          entries.push({
+            name,
+            isFile: !entry.isDirectory,
+            isDirectory: entry.isDirectory,
+            isSymlink: false,
+          });
+        }
+      }
+    }
+
+    return entries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Removes a file or directory recursively
+   */
+  async remove(path: string): Promise<void> {
+    if (!this.dryRun) {
+      await Deno.remove(path, { recursive: true });
+    }
+    this.removedPaths.push(path);
+    const remaining = this.createdDirectories.filter((dir) => !this.isInside(dir, path));
+    this.createdDirectories.splice(0, this.createdDirectories.length, ...remaining);
+  }
+
+  /**
+   * Writes a generated file (created or overwritten as a whole)
+   */
+  async writeFile(path: string, content: string): Promise<void> {
+    await this.record(path, content, false);
+  }
+
+  /**
+   * Writes an updated shared file such as a type index or module file
+   */
+  async patchFile(path: string, content: string): Promise<void> {
+    // Unchanged files are left alone, so no-op runs neither touch nor report them
+    if (await this.readTextFile(path).catch(() => null) === content) {
+      return;
+    }
+    await this.record(path, content, true);
+  }
+
+  /**
+   * Re-reads written files after a hook such as a formatter edited them,
+   * so undo and the run result see what is on disk
+   */
+  async reload(paths: string[]): Promise<void> {
+    for (const change of this.changes) {
+      if (!this.dryRun && paths.includes(change.path)) {
+        change.content = await this.readFromDisk(change.path) ?? change.content;
+      }
+    }
+  }
+
+  /**
+   * Formats all recorded changes, with unified diffs for patched files
+   */
+  formatPlan(): string {
+    const lines: string[] = [];
+
+    for (const path of this.createdDirectories) {
+      lines.push(`  + mkdir     ${path}`);
+    }
+    for (const path of this.removedPaths) {
+      lines.push(`  - delete    ${path}`);
+    }
+    for (const change of this.changes) {
+      if (change.previousContent === change.content) {
+        continue;
+      }
+      const marker = change.action === 'create' ? '+' : change.action === 'patch' ? '~' : '!';
+      lines.push(`  ${marker} ${change.action.padEnd(9)} ${change.path}`);
+    }
+
+    if (lines.length === 0) {
+      return '📋 Plan: nothing to do';
+    }
+
+    let plan = `📋 Plan:\n${lines.join('\n')}\n`;
+    for (const change of this.changes) {
+      if (this.patchedPaths.has(change.path)) {
+        const diff = createUnifiedDiff(change.path, change.previousContent ?? '', change.content);
+        if (diff) {
+          plan += `\n${diff}`;
+        }
+      }
+    }
+    return plan;
+  }
+
+  private async record(path: string, content: string, patch: boolean): Promise<void> {
+    const existing = this.changes.find((c) => c.path === path);
+
+    if (existing) {
+      existing.content = content;
+    } else {
+      const previousContent = await this.readFromDisk(path);
+      const action = previousContent === null ? 'create' : patch ? 'patch' : 'overwrite';
+      this.changes.push({ path, action, previousContent, content });
+    }
+    if (patch) {
+      this.patchedPaths.add(path);
+    }
+
+    if (!this.dryRun) {
+      await Deno.writeTextFile(path, content);
+    }
+  }
+
+  /**
+   * Checks whether a path was removed by this run (dry runs keep it on disk)
+   */
+  private isRemoved(path: string): boolean {
+    return this.dryRun && this.removedPaths.some((removed) => this.isInside(path, removed));
+  }
+
+  private isInside(path: string, parent: string): boolean {
+    return path === parent || path.startsWith(`${parent}/`);
+  }
+
+  private async readFromDisk(path: string): Promise<string | null> {
+    try {
+      return await Deno.readTextFile(path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async existsOnDisk(path: string): Promise<boolean> {
+    try {
+      await Deno.stat(path);
+      return true;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
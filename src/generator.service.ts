@@ -1,70 +1,123 @@
-import { join } from 'https://deno.land/std@0.208.0/path/mod.ts';
-import {
-  eventHandlerTemplate,
-  eventIndexTemplate,
-  eventTemplate,
-} from './templates/event.templates.ts';
-import {
-  commandHandlerTemplate,
-  commandIndexTemplate,
-  commandTemplate,
-} from './templates/command.templates.ts';
-import {
-  queryHandlerTemplate,
-  queryIndexTemplate,
-  queryTemplate,
-} from './templates/query.templates.ts';
-import { serviceIndexTemplate, serviceTemplate } from './templates/service.templates.ts';
-import { usecaseIndexTemplate, usecaseTemplate } from './templates/usecase.templates.ts';
-import {
-  ensureDir,
-  ensureSuffix,
-  generateHandlerName,
-  toKebabCase,
-  toPascalCase,
-} from './utils.ts';
+import { basename, dirname, join } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { applyCodeStyle } from './code-style.ts';
+import { ComponentTypeRegistry } from './component-types.ts';
+import { ComponentProperty } from './templates/properties.ts';
+import { ensureSuffix, generateHandlerName, toKebabCase, toPascalCase } from './utils.ts';
 import { ModuleManagerService } from './module-manager.service.ts';
+import {
+  AppConfig,
+  ComponentType,
+  ConfigService,
+  getAppPath,
+  getAppSourcePath,
+  getTypePath,
+  TemplatePreset,
+} from './config.service.ts';
+import { FileWriterService } from './file-writer.service.ts';
+import { CquverError } from './errors.ts';
+import { Logger } from './logger.ts';
+import { TemplateContext, TemplateService } from './template.service.ts';
+
+/**
+ * What to do when the component folder or files already exist:
+ * abort (default), overwrite everything, or skip existing files and create the missing ones
+ */
+export type ConflictStrategy = 'abort' | 'overwrite' | 'skip';
+
+export interface GenerateOptions {
+  onConflict?: ConflictStrategy;
+  /** Constructor properties, for types taking them such as commands, queries and events */
+  properties?: ComponentProperty[];
+  /** Built-in templates to use instead of the configured preset */
+  preset?: TemplatePreset;
+}
+
+/**
+ * A component to generate in a batch
+ */
+export interface ComponentSpec {
+  type: ComponentType;
+  name: string;
+  properties?: ComponentProperty[];
+}
+
+/** Names, paths and file contents of a component about to be generated */
+interface PlannedComponent {
+  type: ComponentType;
+  className: string;
+  handlerName: string;
+  folderName: string;
+  typeFolder: string;
+  basePath: string;
+  files: Array<{ path: string; content: string }>;
+  classes: string[];
+}
+
+export class ComponentExistsError extends CquverError {
+  constructor(readonly className: string, readonly conflicts: string[]) {
+    super(
+      'COMPONENT_EXISTS',
+      `${className} already exists:\n${conflicts.map((path) => `  - ${path}`).join('\n')}\n` +
+        'Use --force to overwrite it or --skip-existing to only create missing files',
+    );
+    this.name = 'ComponentExistsError';
+  }
+}
 
 export class GeneratorService {
-  private moduleManager = new ModuleManagerService();
+  private moduleManager: ModuleManagerService;
+  private templates: TemplateService;
+
+  constructor(
+    private configService: ConfigService = new ConfigService(),
+    private fileWriter: FileWriterService = new FileWriterService(),
+    private logger: Logger = new Logger(),
+  ) {
+    this.moduleManager = new ModuleManagerService(configService, fileWriter, logger);
+    this.templates = new TemplateService(logger);
+  }
 
   async initializeService(appName: string): Promise<void> {
+    const config = await this.configService.getAppConfig(appName);
+
     // Check if the app exists in the apps directory
-    const appPath = join('apps', appName);
+    const appPath = getAppPath(config, appName);
+    const project = this.configService.describeProject(appName);
 
     try {
       const appStat = await Deno.stat(appPath);
       if (!appStat.isDirectory) {
-        throw new Error(`App "${appName}" exists but is not a directory`);
+        throw new CquverError('APP_NOT_FOUND', `${project} exists but is not a directory`);
       }
     } catch (error) {
       if (error instanceof Deno.errors.NotFound) {
-        console.log(`❌ App "${appName}" not found.`);
-        console.log(`💡 Please create the NestJS app first using:`);
-        console.log(`   nest generate app ${appName}`);
-        throw new Error(`App "${appName}" does not exist`);
+        const nestType = this.configService.kind === 'library' ? 'library' : 'app';
+        this.logger.info(`❌ ${project} not found.`);
+        this.logger.info(`💡 Please create the NestJS ${nestType} first using:`);
+        this.logger.info(`   nest generate ${nestType} ${appName}`);
+        throw new CquverError('APP_NOT_FOUND', `${project} does not exist`);
       }
       throw error;
     }
 
     // Create the DDD/Clean Architecture folder structure
-    const basePath = join('apps', appName, 'src');
+    const basePath = getAppSourcePath(config, appName);
 
     // Create application layer structure (CQRS)
-    const applicationPath = join(basePath, 'application');
-    const commandsPath = join(applicationPath, 'commands');
-    const eventsPath = join(applicationPath, 'events');
-    const queriesPath = join(applicationPath, 'queries');
-    const usecasesPath = join(applicationPath, 'usecases');
+    const applicationPath = join(basePath, config.layers.application);
+    const commandsPath = getTypePath(config, appName, 'command');
+    const eventsPath = getTypePath(config, appName, 'event');
+    const queriesPath = getTypePath(config, appName, 'query');
+    const usecasesPath = getTypePath(config, appName, 'usecase');
 
     // Create domain layer structure
-    const domainPath = join(basePath, 'domain');
+    const domainPath = join(basePath, config.layers.domain);
     const constantsPath = join(domainPath, 'constants');
     const entitiesPath = join(domainPath, 'entities');
-    const servicesPath = join(domainPath, 'services');
+    const servicesPath = getTypePath(config, appName, 'service');
 
     // Create infrastructure layer structure
-    const infrastructurePath = join(basePath, 'infrastructure');
+    const infrastructurePath = join(basePath, config.layers.infrastructure);
     const adaptersPath = join(infrastructurePath, 'adapters');
     const persistencePath = join(infrastructurePath, 'persistence');
 
@@ -77,16 +130,10 @@ export class GeneratorService {
 
     // Helper function to create directory and log appropriate message
     const createDirectoryWithLog = async (path: string): Promise<void> => {
-      try {
-        await Deno.stat(path);
-        console.log(`📁 Directory already exists: ${path}`);
-      } catch (error) {
-        if (error instanceof Deno.errors.NotFound) {
-          await ensureDir(path);
-          console.log(`📁 Created directory: ${path}`);
-        } else {
-          throw error;
-        }
+      if (await this.fileWriter.ensureDir(path)) {
+        this.log(`📁 Created directory: ${path}`);
+      } else {
+        this.log(`📁 Directory already exists: ${path}`);
       }
     };
 
@@ -116,154 +163,457 @@ export class GeneratorService {
     ]);
   }
 
+  /**
+   * Generates a component and wires it up, returns the names of its classes
+   */
   async generate(
     appName: string,
-    type: 'event' | 'command' | 'query' | 'service' | 'usecase',
+    type: ComponentType,
     name: string,
-  ): Promise<void> {
+    options: GenerateOptions = {},
+  ): Promise<string[]> {
+    const onConflict = options.onConflict ?? 'abort';
+    const config = await this.getConfig(appName, options);
+    const types = await this.configService.getComponentTypes();
+    const component = await this.planComponent(
+      config,
+      types,
+      appName,
+      type,
+      name,
+      options.properties ?? [],
+    );
+
+    const existingFiles = await this.findExistingFiles(component, onConflict);
+    await this.writeComponent(component, existingFiles, onConflict);
+
+    // Handler indexes list the handler, the others the class itself
+    await this.moduleManager.updateIndex(appName, type, {
+      name: types.get(type).index === 'handlers' ? component.handlerName : component.className,
+      path: `./${component.folderName}`,
+    });
+
+    await this.moduleManager.updateServiceModule(appName);
+
+    return component.classes;
+  }
+
+  /**
+   * Generates several components in one pass, then updates each affected type index
+   * and the module once. Nothing is written when any of them conflicts.
+   * Returns the names of all generated classes.
+   */
+  async generateMany(
+    appName: string,
+    specs: ComponentSpec[],
+    options: GenerateOptions = {},
+  ): Promise<string[]> {
+    const onConflict = options.onConflict ?? 'abort';
+    const config = await this.getConfig(appName, options);
+    const componentTypes = await this.configService.getComponentTypes();
+    const components: PlannedComponent[] = [];
+    for (const spec of specs) {
+      components.push(
+        await this.planComponent(
+          config,
+          componentTypes,
+          appName,
+          spec.type,
+          spec.name,
+          spec.properties ?? [],
+        ),
+      );
+    }
+
+    const seen = new Set<string>();
+    for (const component of components) {
+      if (seen.has(component.basePath)) {
+        throw new CquverError(
+          'INVALID_ARGUMENTS',
+          `${component.className} is listed more than once`,
+        );
+      }
+      seen.add(component.basePath);
+    }
+
+    // Check everything first so a conflict leaves the app untouched
+    const existingFiles: string[][] = [];
+    for (const component of components) {
+      existingFiles.push(await this.findExistingFiles(component, onConflict));
+    }
+    for (const [index, component] of components.entries()) {
+      await this.writeComponent(component, existingFiles[index], onConflict);
+    }
+
+    const types = [...new Set(components.map((component) => component.type))];
+    this.logger.verbose(`Updating the indexes of ${types.join(', ')} and the module once`);
+    for (const type of types) {
+      await this.moduleManager.updateIndex(appName, type);
+    }
+    if (components.length > 0) {
+      await this.moduleManager.updateServiceModule(appName);
+    }
+
+    return components.flatMap((component) => component.classes);
+  }
+
+  /**
+   * Resolves the app configuration, a preset given for this run wins over the configured one
+   */
+  private async getConfig(appName: string, options: GenerateOptions): Promise<AppConfig> {
+    const config = await this.configService.getAppConfig(appName);
+    if (options.preset) {
+      this.logger.verbose(`Using the ${options.preset} preset instead of ${config.preset}`);
+    }
+    return options.preset ? { ...config, preset: options.preset } : config;
+  }
+
+  /**
+   * Resolves names, paths and file contents of a component without writing anything
+   */
+  private async planComponent(
+    config: AppConfig,
+    types: ComponentTypeRegistry,
+    appName: string,
+    type: ComponentType,
+    name: string,
+    properties: ComponentProperty[],
+  ): Promise<PlannedComponent> {
+    const { templates, index } = types.get(type);
+    const typeConfig = config.types[type];
+
     // Normalize the class name with proper suffix
-    const className = ensureSuffix(toPascalCase(name), this.getSuffix(type));
+    const className = ensureSuffix(toPascalCase(name), typeConfig.suffix);
     const handlerName = generateHandlerName(className);
 
     // Generate file names (use original name without type suffix for files)
     const baseFileName = toKebabCase(name);
     const folderName = toKebabCase(name);
+    this.logger.verbose(
+      `"${name}" becomes class ${className} in folder ${folderName}` +
+        (typeConfig.suffix ? ` (${type} classes end with "${typeConfig.suffix}")` : ''),
+    );
 
     // Create directory path based on type
-    const typeFolder = this.getTypeFolderName(type);
-    const layerPath = this.getLayerPath(type);
-    const basePath = join('apps', appName, 'src', layerPath, typeFolder, folderName);
-    await ensureDir(basePath);
+    const basePath = join(getTypePath(config, appName, type), folderName);
 
     // Generate file paths
-    const mainFilePath = join(basePath, `${baseFileName}.${type}.ts`);
+    const mainFilePath = join(basePath, `${baseFileName}.${typeConfig.fileSuffix}.ts`);
     const indexFilePath = join(basePath, 'index.ts');
+    const handlerFilePath = join(basePath, `${baseFileName}.${config.handlerFileSuffix}.ts`);
 
-    // Generate content based on type
-    const { mainContent, handlerContent, indexContent } = this.getTemplates(
+    const context: TemplateContext = {
+      className,
+      handlerName,
+      fileName: baseFileName,
+      appName,
+      fileSuffix: typeConfig.fileSuffix,
+      handlerFileSuffix: config.handlerFileSuffix,
+      props: properties,
+    };
+
+    // Generate content based on type, project templates replace the built-in ones and are
+    // already written in the project style
+    const style = await this.configService.getCodeStyle();
+    const hasHandler = index === 'handlers';
+    const files = [
+      {
+        path: mainFilePath,
+        content: await this.templates.render(
+          type,
+          'main',
+          context,
+          applyCodeStyle(templates.main(context, config.preset), style),
+        ),
+      },
+      {
+        path: indexFilePath,
+        content: await this.templates.render(
+          type,
+          'index',
+          context,
+          applyCodeStyle(templates.index(context), style),
+        ),
+      },
+    ];
+    if (hasHandler) {
+      files.push({
+        path: handlerFilePath,
+        content: await this.templates.render(
+          type,
+          'handler',
+          context,
+          applyCodeStyle(templates.handler!(context, config.preset), style),
+        ),
+      });
+    }
+
+    return {
       type,
       className,
       handlerName,
-      baseFileName,
-    );
+      folderName,
+      typeFolder: typeConfig.folder,
+      basePath,
+      files,
+      classes: hasHandler ? [className, handlerName] : [className],
+    };
+  }
 
-    // Write files (handlers only for event, command, query)
-    const writePromises = [
-      Deno.writeTextFile(mainFilePath, mainContent),
-      Deno.writeTextFile(indexFilePath, indexContent),
+  /**
+   * Lists the files of a component that already exist.
+   * Never overwrite an implemented component unless asked to.
+   */
+  private async findExistingFiles(
+    component: PlannedComponent,
+    onConflict: ConflictStrategy,
+  ): Promise<string[]> {
+    const { className, basePath } = component;
+    const existingFiles: string[] = [];
+    for (const file of component.files) {
+      if (await this.fileWriter.exists(file.path)) {
+        existingFiles.push(file.path);
+      }
+    }
+    if (onConflict === 'abort') {
+      if (existingFiles.length > 0) {
+        throw new ComponentExistsError(className, existingFiles);
+      }
+      if (await this.fileWriter.exists(basePath)) {
+        throw new ComponentExistsError(className, [basePath]);
+      }
+    } else if (existingFiles.length > 0) {
+      this.logger.verbose(
+        `${existingFiles.length} file(s) of ${className} exist, ` +
+          (onConflict === 'overwrite'
+            ? 'overwriting them (--force)'
+            : 'keeping them (--skip-existing)'),
+      );
+    }
+    return existingFiles;
+  }
+
+  private async writeComponent(
+    component: PlannedComponent,
+    existingFiles: string[],
+    onConflict: ConflictStrategy,
+  ): Promise<void> {
+    if (await this.fileWriter.ensureDir(component.basePath)) {
+      this.log(`📁 Created directory: ${component.basePath}`);
+    }
+
+    await Promise.all(component.files.map(async (file) => {
+      const fileExists = existingFiles.includes(file.path);
+      if (fileExists && onConflict === 'skip') {
+        this.log(`⏭️ Skipped existing file: ${file.path}`);
+        return;
+      }
+      await this.fileWriter.writeFile(file.path, file.content);
+      this.log(`📄 ${fileExists ? 'Overwrote' : 'Created'} file: ${file.path}`);
+    }));
+  }
+
+  /**
+   * Deletes a component folder and unwires it from indexes and the module,
+   * returns the names of the removed classes
+   */
+  async remove(appName: string, type: ComponentType, name: string): Promise<string[]> {
+    const config = await this.configService.getAppConfig(appName);
+    const typeConfig = config.types[type];
+
+    // Resolve names the same way generate does
+    const className = ensureSuffix(toPascalCase(name), typeConfig.suffix);
+    const handlerName = generateHandlerName(className);
+    const basePath = join(getTypePath(config, appName, type), toKebabCase(name));
+
+    if (!(await this.fileWriter.exists(basePath))) {
+      throw new CquverError('COMPONENT_NOT_FOUND', `${className} does not exist: ${basePath}`);
+    }
+
+    await this.fileWriter.remove(basePath);
+    this.log(`🗑️ Removed directory: ${basePath}`);
+
+    const { index } = (await this.configService.getComponentTypes()).get(type);
+    const removedClasses = index === 'handlers' ? [className, handlerName] : [className];
+    await this.moduleManager.removeComponent(appName, type, removedClasses);
+
+    // Anything still importing the removed classes will no longer compile
+    const references = await this.findImports(getAppSourcePath(config, appName), removedClasses);
+    for (const reference of references) {
+      this.logger.warn(`${reference.path} still imports ${reference.className}`);
+    }
+
+    return removedClasses;
+  }
+
+  /**
+   * Renames a component: folder, files, classes, handler, decorators,
+   * indexes and every import site inside the app, returns the new class names
+   */
+  async rename(
+    appName: string,
+    type: ComponentType,
+    oldName: string,
+    newName: string,
+  ): Promise<string[]> {
+    const config = await this.configService.getAppConfig(appName);
+    const typeConfig = config.types[type];
+    const typePath = getTypePath(config, appName, type);
+
+    // Resolve both names the same way generate does
+    const oldClassName = ensureSuffix(toPascalCase(oldName), typeConfig.suffix);
+    const newClassName = ensureSuffix(toPascalCase(newName), typeConfig.suffix);
+    const oldFileName = toKebabCase(oldName);
+    const newFileName = toKebabCase(newName);
+    const oldPath = join(typePath, oldFileName);
+    const newPath = join(typePath, newFileName);
+
+    if (!(await this.fileWriter.exists(oldPath))) {
+      throw new CquverError('COMPONENT_NOT_FOUND', `${oldClassName} does not exist: ${oldPath}`);
+    }
+    if (await this.fileWriter.exists(newPath)) {
+      throw new ComponentExistsError(newClassName, [newPath]);
+    }
+
+    // Handlers first, their names contain the class name
+    const replacements: Array<[string, string]> = [
+      [generateHandlerName(oldClassName), generateHandlerName(newClassName)],
+      [oldClassName, newClassName],
     ];
 
-    if (handlerContent) {
-      const handlerFilePath = join(basePath, `${baseFileName}.handler.ts`);
-      writePromises.push(Deno.writeTextFile(handlerFilePath, handlerContent));
-      console.log(`📄 Created file: ${handlerFilePath}`);
+    // Move the component files, renaming files named after the component
+    await this.fileWriter.ensureDir(newPath);
+    for (const oldFilePath of await this.collectSourceFiles(oldPath)) {
+      const relativePath = oldFilePath.slice(oldPath.length + 1);
+      const newRelativePath = relativePath.startsWith(`${oldFileName}.`)
+        ? newFileName + relativePath.slice(oldFileName.length)
+        : relativePath;
+      const content = this.replaceIdentifiers(
+        await this.fileWriter.readTextFile(oldFilePath),
+        replacements,
+      ).replace(new RegExp(`(['"])\\./${oldFileName}\\.`, 'g'), `$1./${newFileName}.`);
+
+      await this.fileWriter.ensureDir(dirname(join(newPath, newRelativePath)));
+      await this.fileWriter.writeFile(join(newPath, newRelativePath), content);
     }
+    await this.fileWriter.remove(oldPath);
+    this.log(`📁 Moved directory: ${oldPath} -> ${newPath}`);
+    this.logger.verbose(
+      `Renaming ${replacements.map(([from, to]) => `${from} -> ${to}`).join(', ')} in every file`,
+    );
 
-    await Promise.all(writePromises);
-
-    console.log(`📁 Created directory: ${basePath}`);
-    console.log(`📄 Created file: ${mainFilePath}`);
-    console.log(`📄 Created file: ${indexFilePath}`);
-
-    // Update type index and module files only for CQRS types
-    if (['event', 'command', 'query'].includes(type)) {
-      await this.moduleManager.updateTypeIndex(
-        appName,
-        typeFolder,
-        type as 'event' | 'command' | 'query',
-        {
-          name: handlerName,
-          path: `./${folderName}`,
-        },
+    // Rewrite every other file importing the component
+    for (const path of await this.collectSourceFiles(getAppSourcePath(config, appName))) {
+      if (path.startsWith(`${newPath}/`)) {
+        continue;
+      }
+      const content = await this.fileWriter.readTextFile(path);
+      const updatedContent = this.rewriteImportPaths(
+        this.replaceIdentifiers(content, replacements),
+        path,
+        oldPath,
+        newFileName,
       );
-    } else {
-      // For services and usecases, create separate index management
-      await this.moduleManager.updateNonCQRSTypeIndex(appName, typeFolder, {
-        name: className,
-        path: `./${folderName}`,
-      });
+      if (updatedContent !== content) {
+        await this.fileWriter.patchFile(path, updatedContent);
+        this.log(`📄 Updated references: ${path}`);
+      }
     }
 
-    await this.moduleManager.updateServiceModule(appName);
+    await this.moduleManager.reindexType(appName, type);
+
+    return (await this.configService.getComponentTypes()).get(type).index === 'handlers'
+      ? [newClassName, generateHandlerName(newClassName)]
+      : [newClassName];
   }
 
-  private getSuffix(type: 'event' | 'command' | 'query' | 'service' | 'usecase'): string {
-    switch (type) {
-      case 'event':
-        return 'Event';
-      case 'command':
-        return 'Command';
-      case 'query':
-        return 'Query';
-      case 'service':
-        return 'Service';
-      case 'usecase':
-        return 'UseCase';
-    }
+  /**
+   * Replaces whole-word identifiers in source content
+   */
+  private replaceIdentifiers(content: string, replacements: Array<[string, string]>): string {
+    return replacements.reduce(
+      (result, [from, to]) => result.replace(new RegExp(`\\b${from}\\b`, 'g'), to),
+      content,
+    );
+  }
+
+  /**
+   * Points relative imports of a moved component folder at its new name, including
+   * imports of the files inside it named after the component (e.g. create-user.command)
+   */
+  private rewriteImportPaths(
+    content: string,
+    filePath: string,
+    oldPath: string,
+    newFolderName: string,
+  ): string {
+    const oldFolderName = basename(oldPath);
+
+    return content.replace(
+      /(from\s*['"])(\.{1,2}\/[^'"]*)(['"])/g,
+      (statement, prefix: string, specifier: string, suffix: string) => {
+        const target = join(dirname(filePath), specifier);
+        if (target !== oldPath && !target.startsWith(`${oldPath}/`)) {
+          return statement;
+        }
+        const updated = specifier
+          .replace(new RegExp(`(^|/)${oldFolderName}(?=/|$)`), `$1${newFolderName}`)
+          .replace(new RegExp(`/${oldFolderName}(\\.[^/]*)$`), `/${newFolderName}$1`);
+        return `${prefix}${updated}${suffix}`;
+      },
+    );
   }
 
-  private getTemplates(
-    type: 'event' | 'command' | 'query' | 'service' | 'usecase',
-    className: string,
-    handlerName: string,
-    fileName: string,
-  ): { mainContent: string; handlerContent?: string; indexContent: string } {
-    switch (type) {
-      case 'event':
-        return {
-          mainContent: eventTemplate(className),
-          handlerContent: eventHandlerTemplate(className, handlerName, fileName),
-          indexContent: eventIndexTemplate(className, handlerName, fileName),
-        };
-      case 'command':
-        return {
-          mainContent: commandTemplate(className),
-          handlerContent: commandHandlerTemplate(className, handlerName, fileName),
-          indexContent: commandIndexTemplate(className, handlerName, fileName),
-        };
-      case 'query':
-        return {
-          mainContent: queryTemplate(className),
-          handlerContent: queryHandlerTemplate(className, handlerName, fileName),
-          indexContent: queryIndexTemplate(className, handlerName, fileName),
-        };
-      case 'service':
-        return {
-          mainContent: serviceTemplate(className),
-          indexContent: serviceIndexTemplate(className, fileName),
-        };
-      case 'usecase':
-        return {
-          mainContent: usecaseTemplate(className),
-          indexContent: usecaseIndexTemplate(className, fileName),
-        };
+  /**
+   * Finds source files importing any of the given classes
+   */
+  private async findImports(
+    sourcePath: string,
+    classNames: string[],
+  ): Promise<Array<{ path: string; className: string }>> {
+    const references: Array<{ path: string; className: string }> = [];
+
+    for (const path of await this.collectSourceFiles(sourcePath)) {
+      const content = await this.fileWriter.readTextFile(path);
+      for (const match of content.matchAll(/import\s*(?:type\s*)?\{([^}]*)\}\s*from/g)) {
+        const importedNames = match[1].split(',').map((name) => name.trim());
+        for (const className of classNames) {
+          if (importedNames.includes(className)) {
+            references.push({ path, className });
+          }
+        }
+      }
     }
+
+    return references;
   }
 
-  private getTypeFolderName(type: 'event' | 'command' | 'query' | 'service' | 'usecase'): string {
-    switch (type) {
-      case 'event':
-        return 'events';
-      case 'command':
-        return 'commands';
-      case 'query':
-        return 'queries';
-      case 'service':
-        return 'services';
-      case 'usecase':
-        return 'usecases';
+  /**
+   * Recursively lists all TypeScript files in a directory
+   */
+  private async collectSourceFiles(path: string): Promise<string[]> {
+    const files: string[] = [];
+    try {
+      for (const entry of await this.fileWriter.readDir(path)) {
+        const entryPath = join(path, entry.name);
+        if (entry.isDirectory) {
+          files.push(...await this.collectSourceFiles(entryPath));
+        } else if (entry.isFile && entry.name.endsWith('.ts')) {
+          files.push(entryPath);
+        }
+      }
+    } catch {
+      // Directory doesn't exist
     }
+    return files;
   }
 
-  private getLayerPath(type: 'event' | 'command' | 'query' | 'service' | 'usecase'): string {
-    switch (type) {
-      case 'event':
-      case 'command':
-      case 'query':
-      case 'usecase':
-        return 'application';
-      case 'service':
-        return 'domain';
+  /**
+   * Logs progress, dry runs only print the final plan
+   */
+  private log(message: string): void {
+    if (!this.fileWriter.dryRun) {
+      this.logger.info(message);
     }
   }
 }
@@ -0,0 +1,150 @@
+import { ConfigService, HookFormatter } from './config.service.ts';
+import { CquverError } from './errors.ts';
+import { FileWriterService } from './file-writer.service.ts';
+import { Logger } from './logger.ts';
+
+export type HookName = 'preGenerate' | 'postGenerate';
+
+/** Commands of the built-in formatters, run on the touched files only */
+const FORMATTER_COMMANDS: Record<Exclude<HookFormatter, 'none'>, string> = {
+  deno: 'deno fmt {files}',
+  prettier: 'npx prettier --write {files}',
+};
+
+/** Last output lines of a failing command shown in the error */
+const OUTPUT_LINES = 20;
+
+/**
+ * The operation hooks run for, given to the commands as CQUVER_APP and CQUVER_COMMAND
+ */
+export interface HookContext {
+  app: string;
+  /** Arguments of the operation, e.g. "user-service create command CreateUser" */
+  command: string;
+}
+
+/**
+ * Runs the hooks of cquver.json around create and apply, dry runs skip them
+ */
+export class HookService {
+  constructor(
+    private configService: ConfigService = new ConfigService(),
+    private fileWriter: FileWriterService = new FileWriterService(),
+    private logger: Logger = new Logger(),
+  ) {}
+
+  /**
+   * Runs the preGenerate commands, the first failing one vetoes the generation
+   */
+  async preGenerate(context: HookContext): Promise<void> {
+    const { hooks } = await this.configService.getAppConfig(context.app);
+    if (this.skip('preGenerate', hooks.preGenerate)) {
+      return;
+    }
+
+    for (const command of hooks.preGenerate) {
+      await this.run('preGenerate', command, context, [], 'nothing was written');
+    }
+  }
+
+  /**
+   * Runs the formatter and then the postGenerate commands on the files the run created or modified
+   */
+  async postGenerate(context: HookContext): Promise<void> {
+    const { hooks } = await this.configService.getAppConfig(context.app);
+    const commands = [
+      ...(hooks.formatter === 'none' ? [] : [FORMATTER_COMMANDS[hooks.formatter]]),
+      ...hooks.postGenerate,
+    ];
+    if (this.skip('postGenerate', commands)) {
+      return;
+    }
+
+    const files = this.fileWriter.changes
+      .filter((change) => change.previousContent !== change.content)
+      .map((change) => change.path);
+    if (files.length === 0) {
+      this.logger.verbose('No files were changed, skipping the postGenerate hooks');
+      return;
+    }
+
+    try {
+      for (const command of commands) {
+        await this.run('postGenerate', command, context, files, 'the generated files were kept');
+      }
+    } finally {
+      await this.fileWriter.reload(files);
+    }
+  }
+
+  /**
+   * Whether there is nothing to run, dry runs never run hooks
+   */
+  private skip(hook: HookName, commands: string[]): boolean {
+    if (commands.length > 0 && this.fileWriter.dryRun) {
+      this.logger.verbose(`Dry run, skipping the ${hook} hooks`);
+      return true;
+    }
+    return commands.length === 0;
+  }
+
+  /**
+   * Runs one command through the shell, output is only shown with --verbose or on failure
+   */
+  private async run(
+    hook: HookName,
+    command: string,
+    context: HookContext,
+    files: string[],
+    outcome: string,
+  ): Promise<void> {
+    const [shell, ...shellArgs] = Deno.build.os === 'windows'
+      ? ['cmd', '/d', '/s', '/c']
+      : ['sh', '-c'];
+    const script = command.replaceAll('{files}', files.map(quoteArgument).join(' '));
+    this.logger.info(`🪝 ${hook}: ${command}`);
+    this.logger.debug(`Running ${shell} ${[...shellArgs, script].join(' ')}`);
+
+    let result: Deno.CommandOutput;
+    try {
+      result = await new Deno.Command(shell, {
+        args: [...shellArgs, script],
+        stdout: 'piped',
+        stderr: 'piped',
+        env: {
+          CQUVER_HOOK: hook,
+          CQUVER_APP: context.app,
+          CQUVER_COMMAND: context.command,
+          CQUVER_FILES: files.join('\n'),
+        },
+      }).output();
+    } catch (error) {
+      throw new CquverError(
+        'HOOK_FAILED',
+        `${hook} hook "${command}" could not be started, ${outcome}: ` +
+          (error instanceof Error ? error.message : String(error)),
+      );
+    }
+
+    const decoder = new TextDecoder();
+    const output = `${decoder.decode(result.stdout)}${decoder.decode(result.stderr)}`.trim();
+    if (!result.success) {
+      const tail = output.split('\n').slice(-OUTPUT_LINES).map((line) => `  ${line}`);
+      throw new CquverError(
+        'HOOK_FAILED',
+        `${hook} hook "${command}" failed with exit code ${result.code}, ${outcome}` +
+          (output ? `:\n${tail.join('\n')}` : ''),
+      );
+    }
+    if (output) {
+      this.logger.verbose(output);
+    }
+  }
+}
+
+/**
+ * Quotes a path for the shell hooks run in
+ */
+function quoteArgument(path: string): string {
+  return Deno.build.os === 'windows' ? `"${path}"` : `'${path.replaceAll("'", `'\\''`)}'`;
+}
@@ -0,0 +1,138 @@
+import { ComponentTypeRegistry } from './component-types.ts';
+import { ConfigService, getAppPath } from './config.service.ts';
+import { CquverError } from './errors.ts';
+import { ComponentInfo, ModuleManagerService } from './module-manager.service.ts';
+import { WorkspaceService } from './workspace.service.ts';
+
+export type InventoryFormat = 'table' | 'json' | 'markdown';
+
+export const INVENTORY_FORMATS: InventoryFormat[] = ['table', 'json', 'markdown'];
+
+export interface AppInventory {
+  app: string;
+  /** Set for libraries, absent for apps */
+  library?: boolean;
+  components: ComponentInfo[];
+}
+
+export class InventoryService {
+  private moduleManager: ModuleManagerService;
+
+  constructor(private configService: ConfigService = new ConfigService()) {
+    this.moduleManager = new ModuleManagerService(configService);
+  }
+
+  /**
+   * Lists all components of a single app
+   */
+  async listApp(appName: string): Promise<AppInventory> {
+    const config = await this.configService.getAppConfig(appName);
+    const appPath = getAppPath(config, appName);
+
+    try {
+      await Deno.stat(appPath);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        throw new CquverError(
+          'APP_NOT_FOUND',
+          `${this.configService.describeProject(appName)} does not exist`,
+        );
+      }
+      throw error;
+    }
+
+    const components = await this.moduleManager.getComponents(appName);
+    return this.configService.kind === 'library'
+      ? { app: appName, library: true, components }
+      : { app: appName, components };
+  }
+
+  /**
+   * Lists all components of every app and then every library in the workspace, or of the
+   * project itself when it is standalone
+   */
+  async listWorkspace(
+    workspace: WorkspaceService = new WorkspaceService(this.configService),
+  ): Promise<AppInventory[]> {
+    if (await workspace.isStandalone()) {
+      const inventory = new InventoryService(this.configService.forProject('standalone'));
+      return [await inventory.listApp(await workspace.resolveApp())];
+    }
+
+    const apps = await workspace.listApps();
+    if (apps.length === 0) {
+      throw new CquverError('APP_NOT_FOUND', 'No app found in the workspace');
+    }
+
+    const locations = await workspace.getProjectLocations();
+    const inventories: AppInventory[] = [];
+    for (const project of [...apps, ...await workspace.listLibraries()]) {
+      const inventory = new InventoryService(
+        this.configService.forProject(project.kind, locations),
+      );
+      inventories.push(await inventory.listApp(project.name));
+    }
+    return inventories;
+  }
+}
+
+/**
+ * Formats inventories as a table, JSON or Markdown, Markdown has a section per type
+ */
+export function formatInventory(
+  inventories: AppInventory[],
+  format: InventoryFormat,
+  types: ComponentTypeRegistry = new ComponentTypeRegistry(),
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(inventories.length === 1 ? inventories[0] : inventories, null, 2);
+    case 'markdown':
+      return inventories.map((inventory) => formatMarkdown(inventory, types)).join('\n\n');
+    case 'table':
+      return inventories.map(formatTable).join('\n\n');
+  }
+}
+
+function formatTable({ app, library, components }: AppInventory): string {
+  let output = library
+    ? `📚 ${app} (library, ${components.length} components)`
+    : `📦 ${app} (${components.length} components)`;
+
+  if (components.length === 0) {
+    return output;
+  }
+
+  const rows = [
+    ['TYPE', 'NAME', 'HANDLER', 'PATH'],
+    ...components.map((c) => [c.type, c.name, c.handler ?? '-', c.path]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+
+  for (const row of rows) {
+    output += `\n  ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()}`;
+  }
+  return output;
+}
+
+function formatMarkdown(
+  { app, library, components }: AppInventory,
+  types: ComponentTypeRegistry,
+): string {
+  let output = library ? `## ${app} (library)\n` : `## ${app}\n`;
+
+  for (const { name: type, label } of types.listForDisplay()) {
+    const ofType = components.filter((c) => c.type === type);
+    if (ofType.length === 0) {
+      continue;
+    }
+
+    output += `\n### ${label}\n\n`;
+    output += '| Name | Handler | Path |\n| --- | --- | --- |\n';
+    for (const component of ofType) {
+      output += `| ${component.name} | ${component.handler ?? '-'} | \`${component.path}\` |\n`;
+    }
+  }
+
+  return output.trimEnd();
+}
@@ -0,0 +1,168 @@
+import { dirname } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { CquverError } from './errors.ts';
+import { FileWriterService } from './file-writer.service.ts';
+import { Logger } from './logger.ts';
+import { ensureDir } from './utils.ts';
+
+/** Operations undo can roll back, relative to the workspace root */
+export const JOURNAL_PATH = '.cquver/journal.json';
+
+/** Older operations are dropped, undo only walks back from the latest */
+const JOURNAL_LIMIT = 20;
+
+export interface JournalFile {
+  path: string;
+  /** Content before the operation, null when the operation created the file */
+  previousContent: string | null;
+  /** Content the operation left behind, undo refuses when the file changed since */
+  content: string;
+}
+
+/**
+ * Everything one init or create wrote
+ */
+export interface JournalEntry {
+  /** Arguments to repeat the operation, e.g. "user-service create command CreateUser" */
+  command: string;
+  app: string;
+  date: string;
+  /** Directories the operation created, parents first */
+  directories: string[];
+  files: JournalFile[];
+}
+
+/**
+ * Records the files each operation wrote and rolls back the last one
+ */
+export class JournalService {
+  constructor(
+    private fileWriter: FileWriterService = new FileWriterService(),
+    private logger: Logger = new Logger(),
+    private journalPath: string = JOURNAL_PATH,
+  ) {}
+
+  /**
+   * Appends the changes recorded by the file writer, dry runs and no-ops are not recorded
+   */
+  async record(command: string, app: string): Promise<void> {
+    const files = this.fileWriter.changes
+      .filter((change) => change.previousContent !== change.content)
+      .map(({ path, previousContent, content }) => ({ path, previousContent, content }));
+    if (
+      this.fileWriter.dryRun ||
+      (files.length === 0 && this.fileWriter.createdDirectories.length === 0)
+    ) {
+      return;
+    }
+
+    const entry: JournalEntry = {
+      command,
+      app,
+      date: new Date().toISOString(),
+      directories: [...this.fileWriter.createdDirectories],
+      files,
+    };
+    await this.save([...await this.list(), entry].slice(-JOURNAL_LIMIT));
+    this.logger.debug(`Recorded "${command}" in ${this.journalPath}`);
+  }
+
+  /**
+   * Returns the recorded operations, oldest first
+   */
+  async list(): Promise<JournalEntry[]> {
+    let content: string;
+    try {
+      content = await Deno.readTextFile(this.journalPath);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return [];
+      }
+      throw error;
+    }
+
+    let operations: unknown;
+    try {
+      operations = JSON.parse(content)?.operations;
+    } catch {
+      // Reported below like any other unreadable journal
+    }
+    if (!Array.isArray(operations)) {
+      throw new CquverError(
+        'UNDO_CONFLICT',
+        `${this.journalPath} cannot be read, delete it to start a new journal`,
+      );
+    }
+    return operations;
+  }
+
+  /**
+   * Restores the files of the last operation and removes what it created.
+   * Refuses when any of its files was edited since, nothing is touched then.
+   */
+  async undo(): Promise<JournalEntry> {
+    const entries = await this.list();
+    const entry = entries[entries.length - 1];
+    if (!entry) {
+      throw new CquverError('NOTHING_TO_UNDO', 'Nothing to undo, no init or create was recorded');
+    }
+
+    const edited: string[] = [];
+    for (const file of entry.files) {
+      const current = await this.fileWriter.exists(file.path)
+        ? await this.fileWriter.readTextFile(file.path)
+        : null;
+      if (current !== file.content) {
+        edited.push(file.path);
+      }
+    }
+    if (edited.length > 0) {
+      throw new CquverError(
+        'UNDO_CONFLICT',
+        `Cannot undo "cquver ${entry.command}", these files were edited since:\n` +
+          edited.map((path) => `  ${path}`).join('\n'),
+      );
+    }
+
+    for (const file of entry.files) {
+      if (file.previousContent === null) {
+        await this.fileWriter.remove(file.path);
+        this.log(`🗑️ Removed file: ${file.path}`);
+      } else {
+        await this.fileWriter.patchFile(file.path, file.previousContent);
+        this.log(`📄 Restored file: ${file.path}`);
+      }
+    }
+
+    // Deepest first, so children are gone before their parents are checked
+    const directories = [...entry.directories].sort((a, b) =>
+      b.split('/').length - a.split('/').length
+    );
+    for (const path of directories) {
+      if (!(await this.fileWriter.exists(path))) {
+        continue;
+      }
+      if ((await this.fileWriter.readDir(path)).length > 0) {
+        this.logger.warn(`Kept ${path}, it contains files cquver did not create`);
+        continue;
+      }
+      await this.fileWriter.remove(path);
+      this.log(`🗑️ Removed directory: ${path}`);
+    }
+
+    if (!this.fileWriter.dryRun) {
+      await this.save(entries.slice(0, -1));
+    }
+    return entry;
+  }
+
+  private async save(operations: JournalEntry[]): Promise<void> {
+    await ensureDir(dirname(this.journalPath));
+    await Deno.writeTextFile(this.journalPath, JSON.stringify({ operations }, null, 2) + '\n');
+  }
+
+  private log(message: string): void {
+    if (!this.fileWriter.dryRun) {
+      this.logger.info(message);
+    }
+  }
+}
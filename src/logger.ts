@@ -0,0 +1,101 @@
+/**
+ * Output levels, each one includes the ones before it.
+ * silent prints nothing and is used for --json, quiet only prints warnings and errors.
+ */
+export type LogLevel = 'silent' | 'quiet' | 'normal' | 'verbose' | 'debug';
+
+const LEVEL_ORDER: LogLevel[] = ['silent', 'quiet', 'normal', 'verbose', 'debug'];
+
+const COLORS = {
+  green: 32,
+  yellow: 33,
+  red: 31,
+  dim: 2,
+};
+
+export interface LoggerOptions {
+  /** Use ANSI colors, defaults to true on a terminal without NO_COLOR */
+  color?: boolean;
+}
+
+/**
+ * Leveled console output shared by the services of a run.
+ * Warnings are recorded for the --json result whatever the level.
+ */
+export class Logger {
+  readonly warnings: string[] = [];
+  private color: boolean;
+
+  constructor(readonly level: LogLevel = 'normal', options: LoggerOptions = {}) {
+    this.color = options.color ?? supportsColor();
+  }
+
+  /**
+   * Progress of the run
+   */
+  info(message: string): void {
+    if (this.isEnabled('normal')) {
+      console.log(message);
+    }
+  }
+
+  /**
+   * Final result of the run
+   */
+  success(message: string): void {
+    if (this.isEnabled('normal')) {
+      console.log(this.paint('green', message));
+    }
+  }
+
+  /**
+   * Explains a decision, e.g. why a module import was added
+   */
+  verbose(message: string): void {
+    if (this.isEnabled('verbose')) {
+      console.log(this.paint('dim', `💬 ${message}`));
+    }
+  }
+
+  /**
+   * Internal details such as resolved paths and configuration
+   */
+  debug(message: string): void {
+    if (this.isEnabled('debug')) {
+      console.log(this.paint('dim', `🐛 ${message}`));
+    }
+  }
+
+  warn(message: string): void {
+    this.warnings.push(message);
+    if (this.isEnabled('quiet')) {
+      console.warn(this.paint('yellow', `⚠️ ${message}`));
+    }
+  }
+
+  error(message: string): void {
+    if (this.isEnabled('quiet')) {
+      console.error(this.paint('red', `❌ ${message}`));
+    }
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER.indexOf(this.level) >= LEVEL_ORDER.indexOf(level);
+  }
+
+  private paint(color: keyof typeof COLORS, message: string): string {
+    return this.color ? `\x1b[${COLORS[color]}m${message}\x1b[0m` : message;
+  }
+}
+
+/**
+ * Colors only help humans on a terminal, CI logs and pipes get plain text
+ */
+function supportsColor(): boolean {
+  try {
+    return !Deno.env.get('NO_COLOR') && Deno.stdout.isTerminal();
+  } catch {
+    // No --allow-env, stay plain
+    return false;
+  }
+}
@@ -0,0 +1,134 @@
+import { extname } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { parse as parseYaml } from 'https://deno.land/std@0.208.0/yaml/parse.ts';
+import { ComponentTypeRegistry } from './component-types.ts';
+import { ComponentType } from './config.service.ts';
+import { CquverError } from './errors.ts';
+import { ComponentProperty } from './templates/properties.ts';
+
+/**
+ * A component listed in a manifest
+ */
+export interface ManifestComponent {
+  type: ComponentType;
+  name: string;
+  properties: ComponentProperty[];
+}
+
+/**
+ * Reads a YAML or JSON manifest file
+ */
+export async function loadManifest(
+  path: string,
+  types: ComponentTypeRegistry = new ComponentTypeRegistry(),
+): Promise<ManifestComponent[]> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new CquverError('INVALID_MANIFEST', `Manifest ${path} does not exist`);
+    }
+    throw error;
+  }
+  return parseManifest(content, path, types);
+}
+
+/**
+ * Parses manifest content, JSON for .json files and YAML otherwise. Every component type
+ * has a section named after its plural:
+ *
+ * ```yaml
+ * commands:
+ *   - CreateUser
+ *   - name: UpdateUser
+ *     properties:
+ *       id: string
+ *       email?: string
+ * queries: [GetUser]
+ * ```
+ */
+export function parseManifest(
+  content: string,
+  path: string,
+  types: ComponentTypeRegistry = new ComponentTypeRegistry(),
+): ManifestComponent[] {
+  const sections = types.listForDisplay();
+  const formatSections = () => sections.map((definition) => definition.plural).join(', ');
+  let data: unknown;
+  try {
+    data = extname(path) === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw invalid(path, error instanceof Error ? error.message : String(error));
+  }
+
+  if (!isRecord(data)) {
+    throw invalid(path, `expected sections ${formatSections()}`);
+  }
+
+  const components: ManifestComponent[] = [];
+  for (const [section, entries] of Object.entries(data)) {
+    const type = sections.find((definition) => definition.plural === section)?.name;
+    if (!type) {
+      throw invalid(path, `unknown section "${section}", expected ${formatSections()}`);
+    }
+    if (entries === null) {
+      continue;
+    }
+    if (!Array.isArray(entries)) {
+      throw invalid(path, `"${section}" must be a list`);
+    }
+    for (const entry of entries) {
+      components.push(parseComponent(entry, type, section, path, types));
+    }
+  }
+  return components;
+}
+
+function parseComponent(
+  entry: unknown,
+  type: ComponentType,
+  section: string,
+  path: string,
+  types: ComponentTypeRegistry,
+): ManifestComponent {
+  if (typeof entry === 'string') {
+    return { type, name: entry, properties: [] };
+  }
+  if (!isRecord(entry) || typeof entry.name !== 'string') {
+    throw invalid(path, `entries of "${section}" must be names or objects with a name`);
+  }
+
+  const properties = entry.properties ?? {};
+  if (!isRecord(properties)) {
+    throw invalid(path, `properties of ${entry.name} must map names to types`);
+  }
+  if (Object.keys(properties).length > 0 && !types.get(type).properties) {
+    const sections = types.listForDisplay()
+      .filter((definition) => definition.properties)
+      .map((definition) => definition.plural);
+    throw invalid(
+      path,
+      `${entry.name}: only ${sections.slice(0, -1).join(', ')} and ${sections.at(-1)} ` +
+        'take properties',
+    );
+  }
+
+  return {
+    type,
+    name: entry.name,
+    properties: Object.entries(properties).map(([name, propertyType]) => {
+      if (!/^[A-Za-z_$][\w$]*\??$/.test(name) || typeof propertyType !== 'string') {
+        throw invalid(path, `invalid property "${name}" of ${entry.name}`);
+      }
+      return { name, type: propertyType };
+    }),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(path: string, message: string): CquverError {
+  return new CquverError('INVALID_MANIFEST', `Invalid manifest ${path}: ${message}`);
+}
@@ -1,5 +1,19 @@
 import { join } from 'https://deno.land/std@0.208.0/path/mod.ts';
-import { ensureDir } from './utils.ts';
+import {
+  AppConfig,
+  ComponentType,
+  ConfigService,
+  findTypeByFolder,
+  getAppSourcePath,
+  getModuleFileName,
+  getTypeImportPath,
+  getTypePath,
+  TypeConfig,
+} from './config.service.ts';
+import { applyCodeStyle, CodeStyle } from './code-style.ts';
+import { ComponentTypeDefinition } from './component-types.ts';
+import { FileWriterService } from './file-writer.service.ts';
+import { Logger } from './logger.ts';
 
 export interface HandlerInfo {
   name: string;
@@ -11,64 +25,122 @@ export interface ClassInfo {
   path: string;
 }
 
+export interface ComponentInfo {
+  type: ComponentType;
+  /** Main class name (e.g. CreateUserCommand) */
+  name: string;
+  /** Handler class name, types with a handlers index only */
+  handler?: string;
+  /** Component folder */
+  path: string;
+}
+
 export class ModuleManagerService {
+  constructor(
+    private configService: ConfigService = new ConfigService(),
+    private fileWriter: FileWriterService = new FileWriterService(),
+    private logger: Logger = new Logger(),
+  ) {}
+
+  /**
+   * Updates the index of a type the way its definition builds it. The entry is added
+   * even when it is not on disk yet, without one the index is regenerated from disk.
+   */
+  async updateIndex(appName: string, type: ComponentType, entry?: HandlerInfo): Promise<void> {
+    const config = await this.configService.getAppConfig(appName);
+    const definition = (await this.configService.getComponentTypes()).get(type);
+    const typeFolder = config.types[type].folder;
+
+    if (definition.index === 'handlers') {
+      await this.updateTypeIndex(appName, typeFolder, type, entry);
+    } else {
+      await this.updateNonCQRSTypeIndex(appName, typeFolder, entry);
+    }
+  }
+
   /**
-   * Updates or creates index file for non-CQRS types (services/usecases)
+   * Updates or creates index file for types listing their classes (services/usecases).
+   * Without a new service the index is regenerated from the folders on disk.
    */
   async updateNonCQRSTypeIndex(
     appName: string,
     typeFolder: string,
-    newService: HandlerInfo,
+    newService?: HandlerInfo,
   ): Promise<void> {
-    const layerPath = typeFolder === 'services' ? 'domain' : 'application';
-    const typePath = join('apps', appName, 'src', layerPath, typeFolder);
+    const config = await this.configService.getAppConfig(appName);
+    const type = findTypeByFolder(config, typeFolder);
+    if (!type) {
+      throw new Error(`No component type is configured with folder "${typeFolder}"`);
+    }
+    const { providerArray } = (await this.configService.getComponentTypes()).get(type);
+    const typePath = getTypePath(config, appName, type);
     const indexPath = join(typePath, 'index.ts');
 
     // Get all existing services/usecases
-    const services = await this.getAllServices(typePath);
+    const services = await this.getAllServices(typePath, config.types[type]);
 
     // Add new service if not already present
-    const exists = services.some((s) => s.name === newService.name);
+    const exists = !newService || services.some((s) => s.name === newService.name);
     if (!exists) {
       services.push(newService);
     }
+    this.logger.verbose(
+      `Index of ${typeFolder} lists ${services.length} component(s) found in ${typePath}`,
+    );
 
     // Generate index content
-    const indexContent = this.generateServiceIndexContent(typeFolder, services);
+    const indexContent = applyCodeStyle(
+      this.generateServiceIndexContent(providerArray, typeFolder, services),
+      await this.configService.getCodeStyle(),
+    );
 
     // Write index file
-    await ensureDir(typePath);
-    await Deno.writeTextFile(indexPath, indexContent);
-    console.log(`📄 Updated index: ${indexPath}`);
+    await this.fileWriter.ensureDir(typePath);
+    await this.fileWriter.patchFile(indexPath, indexContent);
+    this.log(`📄 Updated index: ${indexPath}`);
   }
 
   /**
-   * Updates or creates index file for a specific type (commands/events/queries)
+   * Updates or creates index file for a type listing handlers (commands/events/queries).
+   * Without a new handler the index is regenerated from the folders on disk.
    */
   async updateTypeIndex(
     appName: string,
     typeFolder: string,
-    type: 'command' | 'event' | 'query',
-    newHandler: HandlerInfo,
+    type: ComponentType,
+    newHandler?: HandlerInfo,
   ): Promise<void> {
-    const typePath = join('apps', appName, 'src', 'application', typeFolder);
+    const config = await this.configService.getAppConfig(appName);
+    const { providerArray } = (await this.configService.getComponentTypes()).get(type);
+    const typePath = join(
+      getAppSourcePath(config, appName),
+      config.layers[config.types[type].layer],
+      typeFolder,
+    );
     const indexPath = join(typePath, 'index.ts');
 
     // Get all existing handlers
-    const handlers = await this.getAllHandlers(typePath, type);
+    const handlers = await this.getAllHandlers(typePath, config.handlerFileSuffix);
 
     // Add new handler if not already present
-    const exists = handlers.some((h) => h.name === newHandler.name);
+    const exists = !newHandler || handlers.some((h) => h.name === newHandler.name);
     if (!exists) {
       handlers.push(newHandler);
     }
+    this.logger.verbose(
+      `Index of ${typeFolder} lists ${handlers.length} handler(s) found in ${typePath}`,
+    );
 
     // Generate index content
-    const indexContent = this.generateTypeIndexContent(type, handlers);
+    const indexContent = applyCodeStyle(
+      this.generateTypeIndexContent(type, providerArray, handlers),
+      await this.configService.getCodeStyle(),
+    );
 
     // Write index file
-    await Deno.writeTextFile(indexPath, indexContent);
-    console.log(`📄 Updated index: ${indexPath}`);
+    await this.fileWriter.ensureDir(typePath);
+    await this.fileWriter.patchFile(indexPath, indexContent);
+    this.log(`📄 Updated index: ${indexPath}`);
   }
 
   /**
@@ -76,76 +148,218 @@ export class ModuleManagerService {
    */
   async updateApplicationIndex(
     appName: string,
-    _type: 'command' | 'event' | 'query',
-    newClass: ClassInfo,
+    _type: ComponentType,
+    newClass?: ClassInfo,
   ): Promise<void> {
-    const applicationPath = join('apps', appName, 'src', 'application');
+    const config = await this.configService.getAppConfig(appName);
+    const applicationPath = join(getAppSourcePath(config, appName), config.layers.application);
     const indexPath = join(applicationPath, 'index.ts');
 
     // Get all existing classes
-    const classes = await this.getAllMainClasses(applicationPath);
+    const classes = await this.getAllMainClasses(
+      config,
+      applicationPath,
+      await this.getDefinitions(),
+    );
 
     // Add new class if not already present
-    const exists = classes.some((c) => c.name === newClass.name);
+    const exists = !newClass || classes.some((c) => c.name === newClass.name);
     if (!exists) {
       classes.push(newClass);
     }
 
     // Generate application index content
-    const indexContent = this.generateApplicationIndexContent(classes);
+    const indexContent = applyCodeStyle(
+      this.generateApplicationIndexContent(classes),
+      await this.configService.getCodeStyle(),
+    );
 
     // Write index file
-    await ensureDir(applicationPath);
-    await Deno.writeTextFile(indexPath, indexContent);
-    console.log(`📄 Updated application index: ${indexPath}`);
+    await this.fileWriter.ensureDir(applicationPath);
+    await this.fileWriter.patchFile(indexPath, indexContent);
+    this.log(`📄 Updated application index: ${indexPath}`);
   }
 
   /**
    * Updates the service module file to include handler arrays
    */
   async updateServiceModule(appName: string): Promise<void> {
-    const modulePath = join('apps', appName, 'src', `${appName}.module.ts`);
-
     try {
+      const config = await this.configService.getAppConfig(appName);
+      const style = await this.configService.getCodeStyle();
+      const wired = (await this.getDefinitions()).filter((type) => type.module === 'providers');
+      const sourcePath = getAppSourcePath(config, appName);
+      const modulePath = join(sourcePath, getModuleFileName(config, appName));
+
       // Check if module file exists
       let moduleContent = '';
       try {
-        moduleContent = await Deno.readTextFile(modulePath);
+        moduleContent = await this.fileWriter.readTextFile(modulePath);
       } catch {
         // Create new module file if it doesn't exist
-        moduleContent = this.generateNewModuleContent(appName);
-        await ensureDir(join('apps', appName, 'src'));
+        this.logger.verbose(`No module file at ${modulePath}, creating one`);
+        moduleContent = applyCodeStyle(
+          this.generateNewModuleContent(appName, config, wired),
+          style,
+        );
+        await this.fileWriter.ensureDir(sourcePath);
       }
 
       // Update module content with handler imports and providers
-      const updatedContent = this.updateModuleContent(moduleContent, appName);
+      const updatedContent = this.updateModuleContent(moduleContent, config, wired, style);
 
-      await Deno.writeTextFile(modulePath, updatedContent);
-      console.log(`📄 Updated module: ${modulePath}`);
+      await this.fileWriter.patchFile(modulePath, updatedContent);
+      this.log(`📄 Updated module: ${modulePath}`);
     } catch (error) {
-      console.warn(
-        `⚠️ Could not update module file: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
+      this.logger.warn(
+        `Could not update module file: ${error instanceof Error ? error.message : String(error)}`,
       );
     }
   }
 
+  /**
+   * Lists all components of an app found on disk, in the order the types are registered
+   * (commands, queries, events, services, usecases, then plugin types)
+   */
+  async getComponents(appName: string): Promise<ComponentInfo[]> {
+    const config = await this.configService.getAppConfig(appName);
+    const definitions = (await this.configService.getComponentTypes()).listForDisplay();
+    const applicationPath = join(getAppSourcePath(config, appName), config.layers.application);
+    const mainClasses = await this.getAllMainClasses(config, applicationPath, definitions);
+    const components: ComponentInfo[] = [];
+
+    for (const { name: type, index } of definitions) {
+      const typePath = getTypePath(config, appName, type);
+
+      if (index === 'handlers') {
+        const { folder } = config.types[type];
+        for (const handler of await this.getAllHandlers(typePath, config.handlerFileSuffix)) {
+          const folderName = handler.path.slice(2);
+          const mainClass = mainClasses.find((c) => c.path === `./${folder}/${folderName}`);
+          components.push({
+            type,
+            name: mainClass?.name ?? handler.name.replace(/Handler$/, ''),
+            handler: handler.name,
+            path: join(typePath, folderName),
+          });
+        }
+      } else {
+        for (const service of await this.getAllServices(typePath, config.types[type])) {
+          components.push({
+            type,
+            name: service.name,
+            path: join(typePath, service.path.slice(2)),
+          });
+        }
+      }
+    }
+
+    return components;
+  }
+
+  /**
+   * Rebuilds every type index, the application barrel if the app has one and
+   * the module providers from the component folders on disk
+   */
+  async syncApp(appName: string): Promise<void> {
+    const config = await this.configService.getAppConfig(appName);
+    for (const { name: type } of await this.getDefinitions()) {
+      await this.updateIndex(appName, type);
+    }
+
+    if (await this.hasApplicationIndex(config, appName)) {
+      await this.updateApplicationIndex(appName, 'command');
+    }
+    await this.updateServiceModule(appName);
+  }
+
+  /**
+   * Regenerates the index of a type from the folders on disk, and the
+   * application barrel if the app has one
+   */
+  async reindexType(appName: string, type: ComponentType): Promise<void> {
+    const config = await this.configService.getAppConfig(appName);
+    await this.updateIndex(appName, type);
+
+    if (
+      (await this.configService.getComponentTypes()).get(type).index === 'handlers' &&
+      await this.hasApplicationIndex(config, appName)
+    ) {
+      await this.updateApplicationIndex(appName, type);
+    }
+  }
+
+  /**
+   * Unwires a removed component: regenerates its type index, refreshes the
+   * application barrel if there is one and drops direct references from the module
+   */
+  async removeComponent(
+    appName: string,
+    type: ComponentType,
+    classNames: string[],
+  ): Promise<void> {
+    const config = await this.configService.getAppConfig(appName);
+    await this.reindexType(appName, type);
+
+    const modulePath = join(
+      getAppSourcePath(config, appName),
+      getModuleFileName(config, appName),
+    );
+    let moduleContent: string;
+    try {
+      moduleContent = await this.fileWriter.readTextFile(modulePath);
+    } catch {
+      // No module file, nothing to unwire
+      return;
+    }
+
+    const updatedContent = this.removeModuleReferences(moduleContent, classNames);
+    if (updatedContent !== moduleContent) {
+      await this.fileWriter.patchFile(modulePath, updatedContent);
+      this.log(`📄 Updated module: ${modulePath}`);
+    }
+  }
+
+  /**
+   * Checks whether the app has an application barrel, it is only kept up to date, never added
+   */
+  private async hasApplicationIndex(config: AppConfig, appName: string): Promise<boolean> {
+    return await this.fileWriter.exists(
+      join(getAppSourcePath(config, appName), config.layers.application, 'index.ts'),
+    );
+  }
+
+  /**
+   * Lists the registered component types, built-in types first
+   */
+  private async getDefinitions(): Promise<ComponentTypeDefinition[]> {
+    return (await this.configService.getComponentTypes()).list();
+  }
+
+  /**
+   * Logs progress, dry runs only print the final plan
+   */
+  private log(message: string): void {
+    if (!this.fileWriter.dryRun) {
+      this.logger.info(message);
+    }
+  }
+
   /**
    * Gets all existing handlers for a specific type
    */
   private async getAllHandlers(
     typePath: string,
-    _type: 'command' | 'event' | 'query',
+    handlerFileSuffix: string,
   ): Promise<HandlerInfo[]> {
     const handlers: HandlerInfo[] = [];
 
     try {
-      for await (const entry of Deno.readDir(typePath)) {
+      for (const entry of await this.fileWriter.readDir(typePath)) {
         if (entry.isDirectory) {
-          const handlerFile = join(typePath, entry.name, `${entry.name}.handler.ts`);
+          const handlerFile = join(typePath, entry.name, `${entry.name}.${handlerFileSuffix}.ts`);
           try {
-            const content = await Deno.readTextFile(handlerFile);
+            const content = await this.fileWriter.readTextFile(handlerFile);
             const handlerName = this.extractHandlerName(content);
             if (handlerName) {
               handlers.push({
@@ -177,12 +391,10 @@ export class ModuleManagerService {
    * Generates content for type index file
    */
   private generateTypeIndexContent(
-    type: 'command' | 'event' | 'query',
+    type: ComponentType,
+    handlerArrayName: string,
     handlers: HandlerInfo[],
   ): string {
-    const typeCapitalized = type.charAt(0).toUpperCase() + type.slice(1);
-    const handlerArrayName = `${typeCapitalized}Handlers`;
-
     let content = '';
     const mainClasses: string[] = [];
 
@@ -217,27 +429,23 @@ export class ModuleManagerService {
   /**
    * Generates new module file content
    */
-  private generateNewModuleContent(appName: string): string {
+  private generateNewModuleContent(
+    appName: string,
+    config: AppConfig,
+    wired: ComponentTypeDefinition[],
+  ): string {
     const className =
       appName.split('-').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('') +
       'Module';
 
     return `import { Module } from '@nestjs/common';
 import { CqrsModule } from '@nestjs/cqrs';
-import { CommandHandlers } from './application/commands';
-import { EventHandlers } from './application/events';
-import { QueryHandlers } from './application/queries';
-import { UseCases } from './application/usecases';
-import { Services } from './domain/services';
+${this.getProviderImports(config, wired).join('\n')}
 
 @Module({
   imports: [CqrsModule],
   providers: [
-    ...CommandHandlers,
-    ...EventHandlers,
-    ...QueryHandlers,
-    ...UseCases,
-    ...Services,
+${wired.map((type) => `    ...${type.providerArray},`).join('\n')}
   ],
 })
 export class ${className} {}
@@ -245,22 +453,40 @@ export class ${className} {}
   }
 
   /**
-   * Gets all existing main classes from the application directory
+   * Builds the import statements of all provider arrays for the module file
    */
-  private async getAllMainClasses(applicationPath: string): Promise<ClassInfo[]> {
-    const classes: ClassInfo[] = [];
-    const typeFolders = ['commands', 'events', 'queries'];
+  private getProviderImports(config: AppConfig, wired: ComponentTypeDefinition[]): string[] {
+    return wired.map((type) =>
+      `import { ${type.providerArray} } from '${getTypeImportPath(config, type.name)}';`
+    );
+  }
 
-    for (const typeFolder of typeFolders) {
+  /**
+   * Gets all existing main classes of the handler types in the application directory
+   */
+  private async getAllMainClasses(
+    config: AppConfig,
+    applicationPath: string,
+    definitions: ComponentTypeDefinition[],
+  ): Promise<ClassInfo[]> {
+    const classes: ClassInfo[] = [];
+    // In folder order, so the barrel does not change when types are registered differently
+    const types = definitions
+      .filter((definition) => definition.index === 'handlers')
+      .map((definition) => definition.name)
+      .filter((type) => config.types[type].layer === 'application')
+      .sort((a, b) => config.types[a].folder.localeCompare(config.types[b].folder));
+
+    for (const type of types) {
+      const { folder: typeFolder, fileSuffix, suffix } = config.types[type];
       const typePath = join(applicationPath, typeFolder);
       try {
-        for await (const entry of Deno.readDir(typePath)) {
+        for (const entry of await this.fileWriter.readDir(typePath)) {
           if (entry.isDirectory) {
-            const type = typeFolder.slice(0, -1); // remove 's' -> commands -> command
-            const mainFile = join(typePath, entry.name, `${entry.name}.${type}.ts`);
+            const mainFile = join(typePath, entry.name, `${entry.name}.${fileSuffix}.ts`);
             try {
-              const content = await Deno.readTextFile(mainFile);
-              const className = this.extractMainClassName(content, type);
+              const content = await this.fileWriter.readTextFile(mainFile);
+              const className = this.extractMainClassName(content, suffix);
               if (className) {
                 classes.push({
                   name: className,
@@ -283,9 +509,8 @@ export class ${className} {}
   /**
    * Extracts main class name from file content
    */
-  private extractMainClassName(content: string, type: string): string | null {
-    const typeCapitalized = type.charAt(0).toUpperCase() + type.slice(1);
-    const pattern = new RegExp(`export class (\\w+${typeCapitalized})`);
+  private extractMainClassName(content: string, suffix: string): string | null {
+    const pattern = new RegExp(`export class (\\w+${suffix})`);
     const match = content.match(pattern);
     return match ? match[1] : null;
   }
@@ -312,25 +537,42 @@ export class ${className} {}
   }
 
   /**
-   * Updates existing module content with handler imports and providers
+   * Updates existing module content with handler imports and providers, in the code style
+   * of the project
    */
-  private updateModuleContent(content: string, _appName: string): string {
-    // Add imports if not present
-    const imports = [
-      "import { CommandHandlers } from './application/commands';",
-      "import { EventHandlers } from './application/events';",
-      "import { QueryHandlers } from './application/queries';",
-      "import { UseCases } from './application/usecases';",
-      "import { Services } from './domain/services';",
-    ];
-
+  private updateModuleContent(
+    content: string,
+    config: AppConfig,
+    wired: ComponentTypeDefinition[],
+    style: CodeStyle,
+  ): string {
     let updatedContent = content;
 
-    // Add missing imports
-    for (const importStatement of imports) {
-      if (!updatedContent.includes(importStatement)) {
+    // Add missing imports and repoint moved ones, whatever quotes the existing ones use
+    for (const type of wired) {
+      const importPath = getTypeImportPath(config, type.name);
+      const existingImport = updatedContent.match(
+        new RegExp(
+          `(import\\s*\\{[^}]*\\b${type.providerArray}\\b[^}]*\\}\\s*from\\s*)(['"])([^'"]*)\\2`,
+        ),
+      );
+      if (existingImport && existingImport[3] !== importPath) {
+        this.logger.verbose(
+          `Module imports ${type.providerArray} from ${existingImport[3]}, ` +
+            `pointing it at ${importPath} where the ${type.name} folder now is`,
+        );
+        const [statement, head, quote] = existingImport;
+        updatedContent = updatedContent.replace(statement, `${head}${quote}${importPath}${quote}`);
+      } else if (!existingImport) {
+        const importStatement = applyCodeStyle(
+          this.getProviderImports(config, [type])[0],
+          style,
+        );
+        this.logger.verbose(
+          `Module has no \`${importStatement}\`, adding it so the providers spread resolves`,
+        );
         // Find the last import statement and add after it
-        const lastImportMatch = updatedContent.match(/import.*from.*['""];/g);
+        const lastImportMatch = updatedContent.match(/import.*from.*['"];?/g);
         if (lastImportMatch) {
           const lastImport = lastImportMatch[lastImportMatch.length - 1];
           updatedContent = updatedContent.replace(lastImport, lastImport + '\n' + importStatement);
@@ -342,26 +584,30 @@ export class ${className} {}
     }
 
     // Add handler arrays to providers if not present
-    const handlerArrays = [
-      '...CommandHandlers',
-      '...EventHandlers',
-      '...QueryHandlers',
-      '...UseCases',
-      '...Services',
-    ];
+    const handlerArrays = wired.map((type) => `...${type.providerArray}`);
+    const trailingComma = style.trailingCommas === 'none' ? '' : ',';
 
     for (const handlerArray of handlerArrays) {
+      const provider = `${style.indent.repeat(2)}${handlerArray}`;
       if (!updatedContent.includes(handlerArray)) {
+        this.logger.verbose(
+          `Module providers do not spread ${handlerArray.slice(3)}, adding ${handlerArray} ` +
+            'so new components are registered without further module edits',
+        );
         // Find providers array and add handler array
         const providersMatch = updatedContent.match(/providers:\s*\[([\s\S]*?)\]/);
         if (providersMatch) {
-          const providersContent = providersMatch[1].trim();
+          const providersContent = providersMatch[1];
+          const entries = providersContent.trim().replace(/,$/, '');
 
-          // Only add if not already present
+          // Only add if not already present, keeping the providers on one line or one per line
           if (!providersContent.includes(handlerArray)) {
-            const newProvidersContent = providersContent
-              ? `${providersContent.replace(/,$/, '')},\n    ${handlerArray},`
-              : `\n    ${handlerArray},\n  `;
+            const newProvidersContent = !entries
+              ? `\n${provider}${trailingComma}\n${style.indent}`
+              : providersContent.includes('\n')
+              ? `${providersContent.trimEnd().replace(/,$/, '')},\n${provider}${trailingComma}` +
+                providersContent.match(/\s*$/)![0]
+              : `${entries}, ${handlerArray}`;
 
             updatedContent = updatedContent.replace(
               /providers:\s*\[([\s\S]*?)\]/,
@@ -375,7 +621,8 @@ export class ${className} {}
             const moduleContent = moduleMatch[1];
             const newModuleContent = moduleContent.includes('providers:')
               ? moduleContent
-              : `${moduleContent.trim()},\n  providers: [\n    ${handlerArray},\n  ],`;
+              : `${moduleContent.trim()},\n${style.indent}providers: [\n${provider}` +
+                `${trailingComma}\n${style.indent}]${trailingComma}`;
 
             updatedContent = updatedContent.replace(
               /@Module\(\{([\s\S]*?)\}\)/,
@@ -389,31 +636,57 @@ export class ${className} {}
     return updatedContent;
   }
 
+  /**
+   * Removes imports and providers of the given classes from module content
+   */
+  private removeModuleReferences(content: string, classNames: string[]): string {
+    let updatedContent = content.replace(
+      /import\s*\{([^}]*)\}\s*from\s*(['"][^'"]+['"])(;?)\n?/g,
+      (statement, names: string, source: string, semicolon: string) => {
+        const importedNames = names.split(',').map((name) => name.trim()).filter(Boolean);
+        const remaining = importedNames.filter((name) => !classNames.includes(name));
+        if (remaining.length === importedNames.length) {
+          return statement;
+        }
+        return remaining.length > 0
+          ? `import { ${remaining.join(', ')} } from ${source}${semicolon}\n`
+          : '';
+      },
+    );
+
+    updatedContent = updatedContent.replace(
+      /providers:\s*\[([\s\S]*?)\]/,
+      (providers) =>
+        classNames.reduce(
+          (result, name) =>
+            result.replace(new RegExp(`\\s*(?<!\\.\\.\\.)\\b${name}\\b\\s*,?`, 'g'), ''),
+          providers,
+        ),
+    );
+
+    return updatedContent;
+  }
+
   /**
    * Gets all existing services/usecases from the specified directory
    */
-  private async getAllServices(typePath: string): Promise<HandlerInfo[]> {
+  private async getAllServices(typePath: string, typeConfig: TypeConfig): Promise<HandlerInfo[]> {
     const services: HandlerInfo[] = [];
     try {
-      for await (const entry of Deno.readDir(typePath)) {
+      for (const entry of await this.fileWriter.readDir(typePath)) {
         if (entry.isDirectory) {
-          // Try to find service/usecase files
-          const serviceFiles = [`${entry.name}.service.ts`, `${entry.name}.usecase.ts`];
-          for (const fileName of serviceFiles) {
-            const filePath = join(typePath, entry.name, fileName);
-            try {
-              const content = await Deno.readTextFile(filePath);
-              const className = this.extractServiceClassName(content);
-              if (className) {
-                services.push({
-                  name: className,
-                  path: `./${entry.name}`,
-                });
-                break; // Found the service/usecase file
-              }
-            } catch {
-              // File doesn't exist, continue
+          const filePath = join(typePath, entry.name, `${entry.name}.${typeConfig.fileSuffix}.ts`);
+          try {
+            const content = await this.fileWriter.readTextFile(filePath);
+            const className = this.extractServiceClassName(content, typeConfig.suffix);
+            if (className) {
+              services.push({
+                name: className,
+                path: `./${entry.name}`,
+              });
             }
+          } catch {
+            // File doesn't exist or can't be read
           }
         }
       }
@@ -426,17 +699,19 @@ export class ${className} {}
   /**
    * Extracts service/usecase class name from file content
    */
-  private extractServiceClassName(content: string): string | null {
-    const match = content.match(/export class (\w+(?:Service|UseCase))/);
+  private extractServiceClassName(content: string, suffix: string): string | null {
+    const match = content.match(new RegExp(`export class (\\w+${suffix})`));
     return match ? match[1] : null;
   }
 
   /**
    * Generates content for service/usecase index file
    */
-  private generateServiceIndexContent(typeFolder: string, services: HandlerInfo[]): string {
-    const typeCapitalized = typeFolder === 'services' ? 'Services' : 'UseCases';
-
+  private generateServiceIndexContent(
+    typeCapitalized: string,
+    typeFolder: string,
+    services: HandlerInfo[],
+  ): string {
     let content = '';
 
     // Add imports for services/usecases
@@ -0,0 +1,178 @@
+import { CquverError } from './errors.ts';
+
+export interface InputOptions {
+  default?: string;
+  /** Rendered below the input while typing, e.g. the resulting class name */
+  preview?: (value: string) => string;
+}
+
+export interface Choice<T extends string> {
+  value: T;
+  label: string;
+}
+
+/**
+ * Questions asked by the interactive wizard
+ */
+export interface Prompt {
+  input(question: string, options?: InputOptions): Promise<string>;
+  select<T extends string>(question: string, choices: Choice<T>[], defaultValue?: T): Promise<T>;
+  confirm(question: string, defaultValue?: boolean): Promise<boolean>;
+}
+
+/**
+ * The user stopped answering (Ctrl+C or end of input)
+ */
+export class PromptCancelledError extends CquverError {
+  constructor() {
+    super('CANCELLED', 'Cancelled, nothing was written');
+    this.name = 'PromptCancelledError';
+  }
+}
+
+const KEYS = {
+  enter: ['\r', '\n'],
+  backspace: ['\x7f', '\b'],
+  interrupt: '\x03',
+  endOfInput: '\x04',
+  escape: '\x1b',
+};
+
+/**
+ * Prompts on the terminal. On a TTY the input is read key by key so previews update while
+ * typing, piped input is read line by line and previews are printed after each answer.
+ */
+export class TerminalPrompt implements Prompt {
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder();
+  private buffered = '';
+
+  constructor(private live: boolean = Deno.stdin.isTerminal() && Deno.stdout.isTerminal()) {}
+
+  async input(question: string, options: InputOptions = {}): Promise<string> {
+    const label = `? ${question}${options.default ? ` (${options.default})` : ''} `;
+    const value = this.live
+      ? await this.readLive(label, options.preview)
+      : await this.readLine(label, options.preview);
+    return value.trim() || options.default || '';
+  }
+
+  async select<T extends string>(
+    question: string,
+    choices: Choice<T>[],
+    defaultValue?: T,
+  ): Promise<T> {
+    this.write(`? ${question}\n`);
+    choices.forEach((choice, index) => this.write(`  ${index + 1}) ${choice.label}\n`));
+
+    while (true) {
+      const answer = await this.input(`Choose 1-${choices.length}`, { default: defaultValue });
+      const choice = choices[Number(answer) - 1] ??
+        choices.find((choice) => choice.value === answer);
+      if (choice) {
+        return choice.value;
+      }
+      this.write(`  "${answer}" is not one of the choices\n`);
+    }
+  }
+
+  async confirm(question: string, defaultValue = true): Promise<boolean> {
+    const answer = await this.input(`${question} ${defaultValue ? '[Y/n]' : '[y/N]'}`);
+    return answer === '' ? defaultValue : /^y(es)?$/i.test(answer);
+  }
+
+  private async readLine(label: string, preview?: (value: string) => string): Promise<string> {
+    this.write(label);
+    while (!this.buffered.includes('\n')) {
+      const chunk = await this.readChunk();
+      if (chunk === null) {
+        throw new PromptCancelledError();
+      }
+      this.buffered += this.decoder.decode(chunk);
+    }
+
+    const newline = this.buffered.indexOf('\n');
+    const value = this.buffered.slice(0, newline).replace(/\r$/, '');
+    this.buffered = this.buffered.slice(newline + 1);
+    this.write('\n');
+    if (preview) {
+      this.write(`${preview(value)}\n`);
+    }
+    return value;
+  }
+
+  private async readLive(label: string, preview?: (value: string) => string): Promise<string> {
+    let value = '';
+    const render = () => {
+      // Redraw the input line, then the preview below it and move back up
+      const lines = preview ? preview(value).split('\n') : [];
+      this.write(`\r\x1b[J${label}${value}`);
+      if (lines.length > 0) {
+        this.write(
+          `\n${lines.join('\n')}\x1b[${lines.length}A\r\x1b[${label.length + value.length}C`,
+        );
+      }
+    };
+
+    Deno.stdin.setRaw(true);
+    try {
+      render();
+      while (true) {
+        const key = await this.readKey();
+        if (key === null || key === KEYS.interrupt) {
+          throw new PromptCancelledError();
+        }
+        if (KEYS.enter.includes(key)) {
+          break;
+        }
+        if (KEYS.backspace.includes(key)) {
+          value = [...value].slice(0, -1).join('');
+        } else if (key === KEYS.endOfInput && value === '') {
+          throw new PromptCancelledError();
+        } else if (key >= ' ') {
+          value += key;
+        }
+        render();
+      }
+    } finally {
+      Deno.stdin.setRaw(false);
+    }
+
+    // Keep the answer and its final preview on screen
+    const lines = preview ? preview(value).split('\n') : [];
+    this.write(`\r\x1b[J${label}${value}\n${lines.map((line) => `${line}\n`).join('')}`);
+    return value;
+  }
+
+  /**
+   * Reads one key, pasted text arrives in one chunk and is handed out key by key.
+   * Escape sequences (arrows etc.) are returned whole so they can be ignored.
+   */
+  private async readKey(): Promise<string | null> {
+    if (!this.buffered) {
+      const chunk = await this.readChunk();
+      if (chunk === null) {
+        return null;
+      }
+      const text = this.decoder.decode(chunk);
+      if (text.startsWith(KEYS.escape)) {
+        return text;
+      }
+      this.buffered = text;
+    }
+
+    const [key] = this.buffered;
+    this.buffered = this.buffered.slice(key.length);
+    return key;
+  }
+
+  private async readChunk(): Promise<Uint8Array | null> {
+    const buffer = new Uint8Array(1024);
+    const read = await Deno.stdin.read(buffer);
+    return read === null ? null : buffer.subarray(0, read);
+  }
+
+  private write(text: string): void {
+    Deno.stdout.writeSync(this.encoder.encode(text));
+  }
+}
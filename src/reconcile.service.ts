@@ -0,0 +1,157 @@
+import { basename, join } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { ComponentType, ConfigService, getAppPath, TemplatePreset } from './config.service.ts';
+import { DoctorIssue, DoctorService } from './doctor.service.ts';
+import { CquverError } from './errors.ts';
+import { FileWriterService } from './file-writer.service.ts';
+import { ConflictStrategy, GeneratorService } from './generator.service.ts';
+import { Logger } from './logger.ts';
+import { loadManifest, ManifestComponent } from './manifest.ts';
+import { ModuleManagerService } from './module-manager.service.ts';
+import { toKebabCase } from './utils.ts';
+
+/** Desired components of an app, kept next to its src folder */
+export const DOMAIN_FILE_NAME = 'cquver.domain.yaml';
+
+/**
+ * A component found on disk but not declared in the domain file
+ */
+export interface UndeclaredComponent {
+  type: ComponentType;
+  /** Component folder name, accepted by remove */
+  name: string;
+  path: string;
+}
+
+/**
+ * Differences between the domain file and the app on disk
+ */
+export interface ReconcilePlan {
+  /** Declared components that do not exist yet */
+  missing: ManifestComponent[];
+  /** Components on disk that are not declared, only deleted with prune */
+  undeclared: UndeclaredComponent[];
+  /** Index and module wiring out of sync with the component folders */
+  drift: DoctorIssue[];
+}
+
+export interface ReconcileOptions {
+  /** Delete undeclared components */
+  prune?: boolean;
+  onConflict?: ConflictStrategy;
+  /** Built-in templates for the created components */
+  preset?: TemplatePreset;
+}
+
+/**
+ * Reconciles an app with the components declared in its cquver.domain.yaml
+ */
+export class ReconcileService {
+  private moduleManager: ModuleManagerService;
+  private generator: GeneratorService;
+  private doctor: DoctorService;
+
+  constructor(
+    private configService: ConfigService = new ConfigService(),
+    private fileWriter: FileWriterService = new FileWriterService(),
+    private logger: Logger = new Logger(),
+  ) {
+    this.moduleManager = new ModuleManagerService(configService, fileWriter, logger);
+    this.generator = new GeneratorService(configService, fileWriter, logger);
+    this.doctor = new DoctorService(configService, fileWriter, logger);
+  }
+
+  /**
+   * Returns the path of the domain file of an app
+   */
+  async getDomainFilePath(appName: string): Promise<string> {
+    const config = await this.configService.getAppConfig(appName);
+    return join(getAppPath(config, appName), DOMAIN_FILE_NAME);
+  }
+
+  /**
+   * Compares the domain file with the components, indexes and module on disk
+   */
+  async plan(appName: string): Promise<ReconcilePlan> {
+    const domainFile = await this.getDomainFilePath(appName);
+    if (!(await this.fileWriter.exists(domainFile))) {
+      throw new CquverError(
+        'INVALID_MANIFEST',
+        `${this.configService.describeProject(appName)} has no ${DOMAIN_FILE_NAME}, ` +
+          `declare its components in ${domainFile}`,
+      );
+    }
+    const declared = await loadManifest(domainFile, await this.configService.getComponentTypes());
+
+    const onDisk = (await this.moduleManager.getComponents(appName)).map((component) => ({
+      type: component.type,
+      name: basename(component.path),
+      path: component.path,
+    }));
+    const key = (type: ComponentType, folder: string) => `${type}:${folder}`;
+    const declaredKeys = new Set(declared.map((c) => key(c.type, toKebabCase(c.name))));
+    const diskKeys = new Set(onDisk.map((c) => key(c.type, c.name)));
+
+    const plan: ReconcilePlan = {
+      missing: declared.filter((c) => !diskKeys.has(key(c.type, toKebabCase(c.name)))),
+      undeclared: onDisk.filter((c) => !declaredKeys.has(key(c.type, c.name))),
+      drift: await this.doctor.diagnose(appName),
+    };
+    this.logger.verbose(
+      `${declared.length} component(s) declared in ${domainFile}, ${onDisk.length} on disk`,
+    );
+    return plan;
+  }
+
+  /**
+   * Creates missing components, deletes undeclared ones when pruning and repairs
+   * index and module drift. Returns the plan that was applied.
+   */
+  async apply(appName: string, options: ReconcileOptions = {}): Promise<ReconcilePlan> {
+    const plan = await this.plan(appName);
+
+    if (options.prune) {
+      for (const component of plan.undeclared) {
+        await this.generator.remove(appName, component.type, component.name);
+      }
+    } else if (plan.undeclared.length > 0) {
+      this.logger.verbose(
+        `Keeping ${plan.undeclared.length} undeclared component(s), pass --prune to delete them`,
+      );
+    }
+
+    await this.generator.generateMany(appName, plan.missing, {
+      onConflict: options.onConflict,
+      preset: options.preset,
+    });
+
+    // Creating and removing components rewires their types, fix whatever is still off
+    const drift = await this.doctor.diagnose(appName);
+    if (drift.length > 0) {
+      await this.doctor.fix(appName, drift);
+    }
+
+    return plan;
+  }
+}
+
+/**
+ * Formats a plan like a dry run: + to create, - to delete, ~ to repair
+ */
+export function formatReconcilePlan(appName: string, plan: ReconcilePlan, prune = false): string {
+  const lines: string[] = [];
+
+  for (const component of plan.missing) {
+    lines.push(`  + ${component.type.padEnd(9)} ${component.name}`);
+  }
+  for (const component of plan.undeclared) {
+    const note = prune ? '' : ' (not declared, kept without --prune)';
+    lines.push(`  - ${component.type.padEnd(9)} ${component.name}${note}`);
+  }
+  for (const issue of plan.drift) {
+    lines.push(`  ~ ${issue.file}: ${issue.message}`);
+  }
+
+  return lines.length > 0
+    ? `📋 Plan for "${appName}":\n${lines.join('\n')}`
+    : `📋 "${appName}" matches ${DOMAIN_FILE_NAME}`;
+}
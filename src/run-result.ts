@@ -0,0 +1,62 @@
+import { ErrorCode, getErrorCode } from './errors.ts';
+import { FileWriterService } from './file-writer.service.ts';
+
+/**
+ * Outcome of a CLI run, printed as a single JSON document with --json
+ */
+export interface RunResult {
+  ok: boolean;
+  action: string | null;
+  app: string | null;
+  dryRun: boolean;
+  files: { created: string[]; updated: string[]; deleted: string[] };
+  directories: string[];
+  classes: string[];
+  warnings: string[];
+  /** Action specific payload, e.g. the inventory of list or the issues of doctor */
+  data?: unknown;
+  error?: { code: ErrorCode; message: string };
+}
+
+export interface RunResultFields {
+  action: string | null;
+  app: string | null;
+  classes?: string[];
+  /** Warnings recorded by the Logger of the run */
+  warnings?: string[];
+  data?: unknown;
+  /** Thrown value when the run failed */
+  error?: unknown;
+}
+
+/**
+ * Builds the result of a run from everything its FileWriterService and Logger recorded
+ */
+export function createRunResult(fileWriter: FileWriterService, fields: RunResultFields): RunResult {
+  const changed = fileWriter.changes.filter((change) => change.previousContent !== change.content);
+  const result: RunResult = {
+    ok: fields.error === undefined,
+    action: fields.action,
+    app: fields.app,
+    dryRun: fileWriter.dryRun,
+    files: {
+      created: changed.filter((change) => change.action === 'create').map((change) => change.path),
+      updated: changed.filter((change) => change.action !== 'create').map((change) => change.path),
+      deleted: [...fileWriter.removedPaths],
+    },
+    directories: [...fileWriter.createdDirectories],
+    classes: fields.classes ?? [],
+    warnings: [...(fields.warnings ?? [])],
+  };
+
+  if (fields.data !== undefined) {
+    result.data = fields.data;
+  }
+  if (fields.error !== undefined) {
+    result.error = {
+      code: getErrorCode(fields.error),
+      message: fields.error instanceof Error ? fields.error.message : String(fields.error),
+    };
+  }
+  return result;
+}
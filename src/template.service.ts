@@ -0,0 +1,128 @@
+import { join } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { ComponentType } from './config.service.ts';
+import { CquverError } from './errors.ts';
+import { Logger } from './logger.ts';
+import { ComponentProperty, constructorParameters } from './templates/properties.ts';
+
+/** Project templates overriding the built-in ones, relative to the workspace root */
+export const TEMPLATES_DIR = '.cquver/templates';
+
+/** The files of a component: its main class, the handler of messages and the folder index */
+export type TemplateFile = 'main' | 'handler' | 'index';
+
+/**
+ * Values a template can use as {{placeholder}}
+ */
+export interface TemplateContext {
+  className: string;
+  handlerName: string;
+  /** Kebab-case file name without suffixes, e.g. create-user */
+  fileName: string;
+  appName: string;
+  /** Suffix of the main file, e.g. command in create-user.command.ts */
+  fileSuffix: string;
+  handlerFileSuffix: string;
+  props: ComponentProperty[];
+}
+
+const PLACEHOLDER = /\{\{\s*([\w]+)\s*\}\}/g;
+
+/** {{#props}}...{{/props}} repeats its body per property, a newline after a tag is dropped */
+const PROPS_BLOCK = /\{\{#props\}\}\n?([\s\S]*?)\{\{\/props\}\}\n?/g;
+
+/**
+ * Renders component files from .cquver/templates/<type>/<file>.tpl when the project has one
+ */
+export class TemplateService {
+  private cache = new Map<string, string | null>();
+
+  constructor(
+    private logger: Logger = new Logger(),
+    private templatesDir: string = TEMPLATES_DIR,
+  ) {}
+
+  /**
+   * Returns the override path of a file, e.g. .cquver/templates/command/handler.tpl.
+   * The main file is named after its type.
+   */
+  getTemplatePath(type: ComponentType, file: TemplateFile): string {
+    return join(this.templatesDir, type, `${file === 'main' ? type : file}.tpl`);
+  }
+
+  /**
+   * Renders the project template of a file, or returns the built-in content without one
+   */
+  async render(
+    type: ComponentType,
+    file: TemplateFile,
+    context: TemplateContext,
+    builtIn: string,
+  ): Promise<string> {
+    const path = this.getTemplatePath(type, file);
+    const template = await this.load(path);
+    if (template === null) {
+      return builtIn;
+    }
+
+    this.logger.verbose(`Rendering ${file} file of ${context.className} from ${path}`);
+    return renderTemplate(template, context, path);
+  }
+
+  private async load(path: string): Promise<string | null> {
+    if (!this.cache.has(path)) {
+      try {
+        this.cache.set(path, await Deno.readTextFile(path));
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          throw error;
+        }
+        this.cache.set(path, null);
+      }
+    }
+    return this.cache.get(path)!;
+  }
+}
+
+/**
+ * Replaces {{placeholders}} and {{#props}} blocks. {{props}} renders all properties as
+ * constructor parameters, inside a block {{name}} and {{type}} refer to the current one.
+ */
+export function renderTemplate(template: string, context: TemplateContext, path: string): string {
+  const values: Record<string, string> = {
+    className: context.className,
+    handlerName: context.handlerName,
+    fileName: context.fileName,
+    appName: context.appName,
+    fileSuffix: context.fileSuffix,
+    handlerFileSuffix: context.handlerFileSuffix,
+    props: constructorParameters(context.props, []),
+  };
+
+  return replacePlaceholders(
+    template.replace(PROPS_BLOCK, (_, body: string) =>
+      context.props
+        .map((property) =>
+          replacePlaceholders(body, { ...values, name: property.name, type: property.type }, path)
+        )
+        .join('')),
+    values,
+    path,
+  );
+}
+
+function replacePlaceholders(
+  template: string,
+  values: Record<string, string>,
+  path: string,
+): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (!Object.hasOwn(values, name)) {
+      throw new CquverError(
+        'INVALID_CONFIG',
+        `Unknown placeholder ${placeholder} in ${path}, ` +
+          `use one of: ${Object.keys(values).map((key) => `{{${key}}}`).join(', ')}`,
+      );
+    }
+    return values[name];
+  });
+}
@@ -1,22 +1,61 @@
-export const commandTemplate = (className: string) =>
+import { TemplatePreset } from '../config.service.ts';
+import { ComponentProperty, messageBody } from './properties.ts';
+
+export const commandTemplate = (
+  className: string,
+  properties: ComponentProperty[] = [],
+  preset: TemplatePreset = 'documented',
+) =>
   `import { ICommand } from '@nestjs/cqrs';
 
-export class ${className} implements ICommand {
-  constructor(
-    // Add your command properties here
-    // public readonly id: string,
-    // public readonly data: CreateUserDto,
-  ) {}
-}
+export class ${className} implements ICommand${
+    messageBody(
+      properties,
+      preset === 'documented'
+        ? [
+          '// Add your command properties here',
+          '// public readonly id: string,',
+          '// public readonly data: CreateUserDto,',
+        ]
+        : [],
+    )
+  }
 `;
 
 export const commandHandlerTemplate = (
   commandName: string,
   handlerName: string,
   fileName: string,
-) =>
-  `import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
-import { ${commandName} } from './${fileName}.command';
+  fileSuffix = 'command',
+  preset: TemplatePreset = 'documented',
+) => {
+  switch (preset) {
+    case 'minimal':
+      return `import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { ${commandName} } from './${fileName}.${fileSuffix}';
+
+@CommandHandler(${commandName})
+export class ${handlerName} implements ICommandHandler<${commandName}> {
+  async execute(command: ${commandName}): Promise<void> {}
+}
+`;
+    case 'strict':
+      return `import { Logger } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { ${commandName} } from './${fileName}.${fileSuffix}';
+
+@CommandHandler(${commandName})
+export class ${handlerName} implements ICommandHandler<${commandName}, void> {
+  private readonly logger = new Logger(${handlerName}.name);
+
+  async execute(command: ${commandName}): Promise<void> {
+    this.logger.debug(\`Executing \${command.constructor.name}\`);
+  }
+}
+`;
+    case 'documented':
+      return `import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { ${commandName} } from './${fileName}.${fileSuffix}';
 
 @CommandHandler(${commandName})
 export class ${handlerName} implements ICommandHandler<${commandName}> {
@@ -35,8 +74,16 @@ export class ${handlerName} implements ICommandHandler<${commandName}> {
   }
 }
 `;
+  }
+};
 
-export const commandIndexTemplate = (commandName: string, handlerName: string, fileName: string) =>
-  `export { ${commandName} } from './${fileName}.command';
-export { ${handlerName} } from './${fileName}.handler';
+export const commandIndexTemplate = (
+  commandName: string,
+  handlerName: string,
+  fileName: string,
+  fileSuffix = 'command',
+  handlerFileSuffix = 'handler',
+) =>
+  `export { ${commandName} } from './${fileName}.${fileSuffix}';
+export { ${handlerName} } from './${fileName}.${handlerFileSuffix}';
 `;
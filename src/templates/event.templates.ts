@@ -1,18 +1,61 @@
-export const eventTemplate = (className: string) =>
+import { TemplatePreset } from '../config.service.ts';
+import { ComponentProperty, messageBody } from './properties.ts';
+
+export const eventTemplate = (
+  className: string,
+  properties: ComponentProperty[] = [],
+  preset: TemplatePreset = 'documented',
+) =>
   `import { IEvent } from '@nestjs/cqrs';
 
-export class ${className} implements IEvent {
-  constructor(
-    // Add your event properties here
-    // public readonly id: string,
-    // public readonly userId: string,
-  ) {}
+export class ${className} implements IEvent${
+    messageBody(
+      properties,
+      preset === 'documented'
+        ? [
+          '// Add your event properties here',
+          '// public readonly id: string,',
+          '// public readonly userId: string,',
+        ]
+        : [],
+    )
+  }
+`;
+
+export const eventHandlerTemplate = (
+  eventName: string,
+  handlerName: string,
+  fileName: string,
+  fileSuffix = 'event',
+  preset: TemplatePreset = 'documented',
+) => {
+  switch (preset) {
+    case 'minimal':
+      return `import { EventsHandler, IEventHandler } from '@nestjs/cqrs';
+import { ${eventName} } from './${fileName}.${fileSuffix}';
+
+@EventsHandler(${eventName})
+export class ${handlerName} implements IEventHandler<${eventName}> {
+  async handle(event: ${eventName}): Promise<void> {}
 }
 `;
+    case 'strict':
+      return `import { Logger } from '@nestjs/common';
+import { EventsHandler, IEventHandler } from '@nestjs/cqrs';
+import { ${eventName} } from './${fileName}.${fileSuffix}';
 
-export const eventHandlerTemplate = (eventName: string, handlerName: string, fileName: string) =>
-  `import { EventsHandler, IEventHandler } from '@nestjs/cqrs';
-import { ${eventName} } from './${fileName}.event';
+@EventsHandler(${eventName})
+export class ${handlerName} implements IEventHandler<${eventName}> {
+  private readonly logger = new Logger(${handlerName}.name);
+
+  async handle(event: ${eventName}): Promise<void> {
+    this.logger.debug(\`Handling \${event.constructor.name}\`);
+  }
+}
+`;
+    case 'documented':
+      return `import { EventsHandler, IEventHandler } from '@nestjs/cqrs';
+import { ${eventName} } from './${fileName}.${fileSuffix}';
 
 @EventsHandler(${eventName})
 export class ${handlerName} implements IEventHandler<${eventName}> {
@@ -24,8 +67,16 @@ export class ${handlerName} implements IEventHandler<${eventName}> {
   }
 }
 `;
+  }
+};
 
-export const eventIndexTemplate = (eventName: string, handlerName: string, fileName: string) =>
-  `export { ${eventName} } from './${fileName}.event';
-export { ${handlerName} } from './${fileName}.handler';
+export const eventIndexTemplate = (
+  eventName: string,
+  handlerName: string,
+  fileName: string,
+  fileSuffix = 'event',
+  handlerFileSuffix = 'handler',
+) =>
+  `export { ${eventName} } from './${fileName}.${fileSuffix}';
+export { ${handlerName} } from './${fileName}.${handlerFileSuffix}';
 `;
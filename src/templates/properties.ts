@@ -0,0 +1,28 @@
+/**
+ * A constructor property of a generated command, query or event
+ */
+export interface ComponentProperty {
+  /** Property name, a trailing "?" makes it optional */
+  name: string;
+  /** TypeScript type, e.g. string or CreateUserDto */
+  type: string;
+}
+
+/**
+ * Renders properties as constructor parameters, or the placeholder comments when there are none
+ */
+export const constructorParameters = (properties: ComponentProperty[], placeholder: string[]) =>
+  (properties.length > 0
+    ? properties.map((property) => `public readonly ${property.name}: ${property.type},`)
+    : placeholder)
+    .map((line) => `    ${line}`)
+    .join('\n');
+
+/**
+ * Renders the class body of a message: a constructor taking its properties, the placeholder
+ * comments when there are none, or an empty body without placeholder
+ */
+export const messageBody = (properties: ComponentProperty[], placeholder: string[]) => {
+  const parameters = constructorParameters(properties, placeholder);
+  return parameters ? ` {\n  constructor(\n${parameters}\n  ) {}\n}` : ' {}';
+};
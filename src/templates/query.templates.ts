@@ -1,18 +1,71 @@
-export const queryTemplate = (className: string) =>
-  `import { IQuery } from '@nestjs/cqrs';
+import { TemplatePreset } from '../config.service.ts';
+import { ComponentProperty, messageBody } from './properties.ts';
 
-export class ${className} implements IQuery {
-  constructor(
-    // Add your query properties here
-    // public readonly id: string,
-    // public readonly filters?: QueryFilters,
-  ) {}
+export const queryTemplate = (
+  className: string,
+  properties: ComponentProperty[] = [],
+  preset: TemplatePreset = 'documented',
+) => {
+  const query = `import { IQuery } from '@nestjs/cqrs';
+
+export class ${className} implements IQuery${
+    messageBody(
+      properties,
+      preset === 'documented'
+        ? [
+          '// Add your query properties here',
+          '// public readonly id: string,',
+          '// public readonly filters?: QueryFilters,',
+        ]
+        : [],
+    )
+  }
+`;
+
+  // Strict handlers return a named result type instead of any
+  return preset === 'strict'
+    ? `${query}
+/** Data returned for a ${className}, narrow it to what the handler returns */
+export type ${queryResultName(className)} = Record<string, unknown>;
+`
+    : query;
+};
+
+export const queryHandlerTemplate = (
+  queryName: string,
+  handlerName: string,
+  fileName: string,
+  fileSuffix = 'query',
+  preset: TemplatePreset = 'documented',
+) => {
+  switch (preset) {
+    case 'minimal':
+      return `import { QueryHandler, IQueryHandler } from '@nestjs/cqrs';
+import { ${queryName} } from './${fileName}.${fileSuffix}';
+
+@QueryHandler(${queryName})
+export class ${handlerName} implements IQueryHandler<${queryName}> {
+  async execute(query: ${queryName}): Promise<any> {}
 }
 `;
+    case 'strict':
+      return `import { Logger, NotImplementedException } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { ${queryName}, ${queryResultName(queryName)} } from './${fileName}.${fileSuffix}';
+
+@QueryHandler(${queryName})
+export class ${handlerName} implements IQueryHandler<${queryName}, ${queryResultName(queryName)}> {
+  private readonly logger = new Logger(${handlerName}.name);
 
-export const queryHandlerTemplate = (queryName: string, handlerName: string, fileName: string) =>
-  `import { QueryHandler, IQueryHandler } from '@nestjs/cqrs';
-import { ${queryName} } from './${fileName}.query';
+  async execute(query: ${queryName}): Promise<${queryResultName(queryName)}> {
+    this.logger.debug(\`Executing \${query.constructor.name}\`);
+    throw new NotImplementedException(\`\${${handlerName}.name} is not implemented\`);
+  }
+}
+`;
+    case 'documented':
+      return `import { QueryHandler, IQueryHandler } from '@nestjs/cqrs';
+import { ${queryName} } from './${fileName}.${fileSuffix}';
 
 @QueryHandler(${queryName})
 export class ${handlerName} implements IQueryHandler<${queryName}> {
@@ -31,8 +84,21 @@ export class ${handlerName} implements IQueryHandler<${queryName}> {
   }
 }
 `;
+  }
+};
 
-export const queryIndexTemplate = (queryName: string, handlerName: string, fileName: string) =>
-  `export { ${queryName} } from './${fileName}.query';
-export { ${handlerName} } from './${fileName}.handler';
+export const queryIndexTemplate = (
+  queryName: string,
+  handlerName: string,
+  fileName: string,
+  fileSuffix = 'query',
+  handlerFileSuffix = 'handler',
+) =>
+  `export { ${queryName} } from './${fileName}.${fileSuffix}';
+export { ${handlerName} } from './${fileName}.${handlerFileSuffix}';
 `;
+
+/**
+ * Names the result type of a query, e.g. GetUserQuery -> GetUserQueryResult
+ */
+export const queryResultName = (queryName: string) => `${queryName}Result`;
@@ -1,5 +1,13 @@
-export const serviceTemplate = (className: string) =>
-  `import { Injectable } from '@nestjs/common';
+import { TemplatePreset } from '../config.service.ts';
+
+export const serviceTemplate = (className: string, preset: TemplatePreset = 'documented') =>
+  preset !== 'documented'
+    ? `import { Injectable } from '@nestjs/common';
+
+@Injectable()
+export class ${className} {}
+`
+    : `import { Injectable } from '@nestjs/common';
 
 @Injectable()
 export class ${className} {
@@ -13,6 +21,10 @@ export class ${className} {
 }
 `;
 
-export const serviceIndexTemplate = (serviceName: string, fileName: string) =>
-  `export { ${serviceName} } from './${fileName}.service';
+export const serviceIndexTemplate = (
+  serviceName: string,
+  fileName: string,
+  fileSuffix = 'service',
+) =>
+  `export { ${serviceName} } from './${fileName}.${fileSuffix}';
 `;
@@ -1,5 +1,13 @@
-export const usecaseTemplate = (className: string) =>
-  `import { Injectable } from '@nestjs/common';
+import { TemplatePreset } from '../config.service.ts';
+
+export const usecaseTemplate = (className: string, preset: TemplatePreset = 'documented') =>
+  preset !== 'documented'
+    ? `import { Injectable } from '@nestjs/common';
+
+@Injectable()
+export class ${className} {}
+`
+    : `import { Injectable } from '@nestjs/common';
 
 @Injectable()
 export class ${className} {
@@ -14,6 +22,10 @@ export class ${className} {
 }
 `;
 
-export const usecaseIndexTemplate = (usecaseName: string, fileName: string) =>
-  `export { ${usecaseName} } from './${fileName}.usecase';
+export const usecaseIndexTemplate = (
+  usecaseName: string,
+  fileName: string,
+  fileSuffix = 'usecase',
+) =>
+  `export { ${usecaseName} } from './${fileName}.${fileSuffix}';
 `;
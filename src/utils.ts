@@ -149,3 +149,47 @@ export function parseVersion(version: string): {
 
   return result;
 }
+
+/**
+ * Counts the single-character edits (insert, delete, replace, swap of neighbours)
+ * needed to turn one string into another
+ * Example: editDistance('craete', 'create') -> 1
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from(
+    { length: a.length + 1 },
+    (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+/**
+ * Finds the candidate closest to a mistyped word, null when nothing is close enough
+ * Example: findClosest('comand', ['command', 'query']) -> 'command'
+ */
+export function findClosest(input: string, candidates: string[]): string | null {
+  const maxDistance = Math.min(2, input.length - 1);
+  let closest: string | null = null;
+  let closestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(input.toLowerCase(), candidate);
+    if (distance <= maxDistance && distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
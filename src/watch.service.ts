@@ -0,0 +1,106 @@
+import { resolve } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import {
+  AppConfig,
+  ConfigService,
+  getAppSourcePath,
+  getModuleFileName,
+  getTypePath,
+} from './config.service.ts';
+import { CquverError } from './errors.ts';
+import { FileWriterService } from './file-writer.service.ts';
+import { Logger } from './logger.ts';
+import { ModuleManagerService } from './module-manager.service.ts';
+
+export interface WatchOptions {
+  /** Quiet period after the last file system event before syncing */
+  debounceMs?: number;
+  /** Stops watching when aborted */
+  signal?: AbortSignal;
+}
+
+/** Event kinds for files and folders that appear, disappear or are renamed */
+const STRUCTURAL_EVENTS: Deno.FsEvent['kind'][] = ['create', 'remove', 'rename'];
+
+/**
+ * Keeps the indexes and module wiring of an app in sync with its folders
+ */
+export class WatchService {
+  constructor(
+    private configService: ConfigService = new ConfigService(),
+    private logger: Logger = new Logger(),
+  ) {}
+
+  /**
+   * Syncs the app once, then again after every burst of component changes
+   */
+  async watch(appName: string, options: WatchOptions = {}): Promise<void> {
+    const { debounceMs = 200, signal } = options;
+    const config = await this.configService.getAppConfig(appName);
+    const sourcePath = getAppSourcePath(config, appName);
+
+    if (!(await new FileWriterService().exists(sourcePath))) {
+      throw new CquverError(
+        'APP_NOT_FOUND',
+        `${this.configService.describeProject(appName)} does not exist`,
+      );
+    }
+
+    // Watch before the first sync so no change in between is missed
+    const generatedFiles = await this.getGeneratedFiles(config, appName);
+    const watcher = Deno.watchFs(sourcePath);
+    await this.sync(appName);
+
+    const stop = () => watcher.close();
+    signal?.addEventListener('abort', stop, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let syncing = Promise.resolve();
+
+    try {
+      for await (const event of watcher) {
+        // Our own index and module writes must not trigger another sync
+        const relevant = STRUCTURAL_EVENTS.includes(event.kind) &&
+          event.paths.some((path) => !generatedFiles.has(resolve(path)));
+        if (!relevant) {
+          continue;
+        }
+        this.logger.debug(`${event.kind}: ${event.paths.join(', ')}`);
+
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          syncing = syncing.then(() => this.sync(appName));
+        }, debounceMs);
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', stop);
+      await syncing;
+    }
+  }
+
+  /**
+   * Rebuilds indexes and module wiring, a failed run only warns so watching continues
+   */
+  private async sync(appName: string): Promise<void> {
+    const fileWriter = new FileWriterService();
+
+    try {
+      await new ModuleManagerService(this.configService, fileWriter, this.logger).syncApp(appName);
+      const changed = fileWriter.changes.filter((c) => c.previousContent !== c.content);
+      this.logger.info(`🔄 Synced "${appName}", ${changed.length} file(s) changed`);
+    } catch (error) {
+      this.logger.warn(`Sync failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async getGeneratedFiles(config: AppConfig, appName: string): Promise<Set<string>> {
+    const sourcePath = getAppSourcePath(config, appName);
+    const types = (await this.configService.getComponentTypes()).list();
+
+    return new Set([
+      ...types.map((type) => resolve(getTypePath(config, appName, type.name), 'index.ts')),
+      resolve(sourcePath, config.layers.application, 'index.ts'),
+      resolve(sourcePath, getModuleFileName(config, appName)),
+    ]);
+  }
+}
@@ -0,0 +1,173 @@
+import { join } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import {
+  AppConfig,
+  ComponentType,
+  CONFIG_FILE_NAME,
+  ConfigService,
+  getTypePath,
+} from './config.service.ts';
+import { ComponentTypeRegistry } from './component-types.ts';
+import { Prompt } from './prompt.ts';
+import { ComponentProperty } from './templates/properties.ts';
+import { ensureSuffix, generateHandlerName, toKebabCase, toPascalCase } from './utils.ts';
+import { WorkspaceService } from './workspace.service.ts';
+
+/**
+ * Everything the wizard asked for, ready for GeneratorService.generate
+ */
+export interface WizardAnswers {
+  app: string;
+  type: ComponentType;
+  name: string;
+  properties: ComponentProperty[];
+}
+
+export interface WizardOptions {
+  /** App or library given on the command line, skips the app question */
+  app?: string | null;
+  /** Library given with --lib */
+  library?: boolean;
+  /** Directory cquver was called from, its app is the default choice */
+  cwd?: string;
+}
+
+/**
+ * Asks step by step for a component to create, previewing the names cquver derives
+ */
+export class WizardService {
+  constructor(
+    private prompt: Prompt,
+    private workspace: WorkspaceService = new WorkspaceService(),
+  ) {}
+
+  /**
+   * Runs the questions, returns null when the user declines the final confirmation
+   */
+  async run(options: WizardOptions = {}): Promise<WizardAnswers | null> {
+    const app = options.app || await this.askApp(options.cwd);
+    const kind = options.library ? 'library' : await this.workspace.getProjectKind(app);
+    const configService = new ConfigService(
+      CONFIG_FILE_NAME,
+      kind,
+      await this.workspace.getProjectLocations(),
+    );
+    const config = await configService.getAppConfig(app);
+    const types = await configService.getComponentTypes();
+
+    const width = Math.max(...types.listForDisplay().map((definition) => definition.name.length)) +
+      2;
+    const type = await this.prompt.select(
+      'Component type',
+      types.listForDisplay().map((definition) => ({
+        value: definition.name,
+        label: `${definition.name.padEnd(width)} - ${definition.description}`,
+      })),
+      'command',
+    );
+
+    let name = '';
+    while (!name) {
+      name = await this.prompt.input('Name', {
+        preview: (value) => formatPreview(config, app, type, value, types),
+      });
+      if (!toPascalCase(name)) {
+        name = '';
+      }
+    }
+
+    const properties = types.get(type).properties &&
+        await this.prompt.confirm('Add constructor properties?', false)
+      ? await this.askProperties()
+      : [];
+
+    const className = ensureSuffix(toPascalCase(name), config.types[type].suffix);
+    const folder = join(getTypePath(config, app, type), toKebabCase(name));
+    const confirmed = await this.prompt.confirm(`Create ${className} in ${folder}?`);
+    return confirmed ? { app, type, name, properties } : null;
+  }
+
+  private async askApp(cwd?: string): Promise<string> {
+    const projects = [...await this.workspace.listApps(), ...await this.workspace.listLibraries()];
+    if (projects.length === 0) {
+      // Standalone projects and empty workspaces have nothing to choose from
+      return await this.workspace.resolveApp(cwd);
+    }
+    if (projects.length === 1) {
+      return projects[0].name;
+    }
+
+    const detected = await this.workspace.resolveApp(cwd).catch(() => undefined);
+    return await this.prompt.select(
+      'App',
+      projects.map((project) => ({
+        value: project.name,
+        label: project.kind === 'library' ? `${project.name} (library)` : project.name,
+      })),
+      detected,
+    );
+  }
+
+  private async askProperties(): Promise<ComponentProperty[]> {
+    const properties: ComponentProperty[] = [];
+
+    while (true) {
+      const answer = await this.prompt.input('Property as name: type (empty to finish)', {
+        preview: (value) => {
+          const property = parseProperty(value);
+          return property
+            ? `  public readonly ${property.name}: ${property.type},`
+            : value.trim()
+            ? '  Use name: type, e.g. email: string'
+            : '';
+        },
+      });
+      if (!answer) {
+        return properties;
+      }
+
+      // Invalid answers are asked again, the preview explains the format
+      const property = parseProperty(answer);
+      if (property) {
+        properties.push(property);
+      }
+    }
+  }
+}
+
+/**
+ * Shows the class, files and folder a name turns into
+ */
+export function formatPreview(
+  config: AppConfig,
+  app: string,
+  type: ComponentType,
+  name: string,
+  types: ComponentTypeRegistry = new ComponentTypeRegistry(),
+): string {
+  const className = ensureSuffix(toPascalCase(name), config.types[type].suffix);
+  if (!toPascalCase(name)) {
+    return '  Type a name, e.g. CreateUser or create-user';
+  }
+
+  const fileName = toKebabCase(name);
+  const files = [`${fileName}.${config.types[type].fileSuffix}.ts`, 'index.ts'];
+  const classes = [className];
+  if (types.get(type).index === 'handlers') {
+    files.splice(1, 0, `${fileName}.${config.handlerFileSuffix}.ts`);
+    classes.push(generateHandlerName(className));
+  }
+
+  return [
+    `  classes: ${classes.join(', ')}`,
+    `  files:   ${files.join(', ')}`,
+    `  folder:  ${join(getTypePath(config, app, type), fileName)}`,
+  ].join('\n');
+}
+
+/**
+ * Parses "name: type", a bare name is a string
+ */
+function parseProperty(answer: string): ComponentProperty | null {
+  const match = answer.trim().match(/^([A-Za-z_$][\w$]*\??)\s*(?::\s*(.+))?$/);
+  return match ? { name: match[1], type: match[2]?.trim() || 'string' } : null;
+}
@@ -0,0 +1,230 @@
+import {
+  basename,
+  dirname,
+  join,
+  relative,
+  resolve,
+} from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { CONFIG_FILE_NAME, ConfigService, ProjectKind, ProjectLocation } from './config.service.ts';
+import { CquverError } from './errors.ts';
+
+export const NEST_CLI_FILE_NAME = 'nest-cli.json';
+
+/** An app or library of the workspace and the folder it lives in */
+export interface WorkspaceProject {
+  name: string;
+  root: string;
+  kind: ProjectKind;
+}
+
+interface NestCliProject {
+  type?: string;
+  root?: string;
+  sourceRoot?: string;
+}
+
+interface NestCliConfig {
+  monorepo?: boolean;
+  projects?: Record<string, NestCliProject>;
+}
+
+/**
+ * Finds the workspace root and the apps and libraries it contains
+ */
+export class WorkspaceService {
+  constructor(
+    private configService: ConfigService = new ConfigService(),
+    private nestCliPath = NEST_CLI_FILE_NAME,
+  ) {}
+
+  /**
+   * Walks up from a directory to the first one containing nest-cli.json or cquver.json
+   */
+  async findRoot(start: string = Deno.cwd()): Promise<string | null> {
+    let current = resolve(start);
+
+    while (true) {
+      for (const marker of [NEST_CLI_FILE_NAME, CONFIG_FILE_NAME]) {
+        if (await this.isFile(join(current, marker))) {
+          return current;
+        }
+      }
+
+      const parent = dirname(current);
+      if (parent === current) {
+        return null;
+      }
+      current = parent;
+    }
+  }
+
+  /**
+   * Lists the apps of the workspace
+   */
+  async listApps(): Promise<WorkspaceProject[]> {
+    return (await this.listProjects()).filter((project) => project.kind === 'app');
+  }
+
+  /**
+   * Lists the libraries of the workspace
+   */
+  async listLibraries(): Promise<WorkspaceProject[]> {
+    return (await this.listProjects()).filter((project) => project.kind === 'library');
+  }
+
+  /**
+   * Tells whether the workspace is a plain `nest new` project (nest-cli.json without monorepo
+   * and projects)
+   */
+  async isStandalone(): Promise<boolean> {
+    const nestCli = await this.loadNestCli();
+    return nestCli !== null && nestCli.monorepo !== true &&
+      Object.keys(nestCli.projects ?? {}).length === 0;
+  }
+
+  /**
+   * Tells whether a project name is a library, anything unknown is treated as an app
+   */
+  async getProjectKind(name: string): Promise<ProjectKind> {
+    if (await this.isStandalone()) {
+      return 'standalone';
+    }
+
+    const kinds = (await this.listProjects())
+      .filter((project) => project.name === name)
+      .map((project) => project.kind);
+    return kinds.length > 0 && !kinds.includes('app') ? 'library' : 'app';
+  }
+
+  /**
+   * Picks the app or library containing the given directory, or the only app of the workspace.
+   * Standalone projects are named after the workspace folder.
+   */
+  async resolveApp(cwd: string = Deno.cwd()): Promise<string> {
+    if (await this.isStandalone()) {
+      return basename(resolve(dirname(this.nestCliPath)));
+    }
+
+    const projects = await this.listProjects();
+
+    const containing = projects.find((project) => {
+      const path = relative(resolve(project.root), resolve(cwd));
+      return path === '' || (!path.startsWith('..') && !path.startsWith('/'));
+    });
+    if (containing) {
+      return containing.name;
+    }
+
+    const apps = projects.filter((project) => project.kind === 'app');
+    if (apps.length === 1) {
+      return apps[0].name;
+    }
+    if (apps.length === 0) {
+      throw new CquverError(
+        'APP_NOT_FOUND',
+        'No app found. Pass the app name, e.g. "cquver <app> init"',
+      );
+    }
+    throw new CquverError(
+      'APP_AMBIGUOUS',
+      `Cannot tell which app to use, pass one of: ${apps.map((app) => app.name).join(', ')}`,
+    );
+  }
+
+  /**
+   * Returns the folders nest-cli.json puts its projects in, keyed by project name, so they are
+   * generated into even when the name differs from the folder
+   */
+  async getProjectLocations(): Promise<Record<string, ProjectLocation>> {
+    const locations: Record<string, ProjectLocation> = {};
+    for (const [name, project] of Object.entries((await this.loadNestCli())?.projects ?? {})) {
+      if (!project.root && !project.sourceRoot) {
+        continue;
+      }
+      locations[name] = {
+        root: this.getNestCliRoot(name, project),
+        sourceRoot: project.sourceRoot && join(dirname(this.nestCliPath), project.sourceRoot),
+      };
+    }
+    return locations;
+  }
+
+  /**
+   * Reads the nest-cli.json projects, or the folders in the apps and libs directories
+   */
+  private async listProjects(): Promise<WorkspaceProject[]> {
+    const nestCli = await this.loadNestCli();
+    const projects = Object.entries(nestCli?.projects ?? {});
+
+    if (projects.length > 0) {
+      return projects
+        .map(([name, project]) => ({
+          name,
+          root: this.getNestCliRoot(name, project),
+          kind: project.type === 'library' ? 'library' as const : 'app' as const,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    const { appsDir, libsDir } = await this.configService.getWorkspaceConfig();
+    return [
+      ...await this.listFolders(appsDir, 'app'),
+      ...await this.listFolders(libsDir, 'library'),
+    ];
+  }
+
+  private getNestCliRoot(name: string, project: NestCliProject): string {
+    return join(
+      dirname(this.nestCliPath),
+      project.root ?? (project.sourceRoot ? dirname(project.sourceRoot) : name),
+    );
+  }
+
+  private async listFolders(path: string, kind: ProjectKind): Promise<WorkspaceProject[]> {
+    const projects: WorkspaceProject[] = [];
+    try {
+      for await (const entry of Deno.readDir(path)) {
+        if (entry.isDirectory) {
+          projects.push({ name: entry.name, root: join(path, entry.name), kind });
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+    return projects.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private async loadNestCli(): Promise<NestCliConfig | null> {
+    let raw: string;
+    try {
+      raw = await Deno.readTextFile(this.nestCliPath);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(raw) as NestCliConfig;
+    } catch (error) {
+      throw new CquverError(
+        'INVALID_CONFIG',
+        `Invalid ${this.nestCliPath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async isFile(path: string): Promise<boolean> {
+    try {
+      return (await Deno.stat(path)).isFile;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
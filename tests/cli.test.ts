@@ -2,14 +2,34 @@ import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.t
 import { exists } from 'https://deno.land/std@0.208.0/fs/exists.ts';
 
 // Test utilities
-async function runCLI(args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+async function runCLI(
+  args: string[],
+  cwd?: string,
+  input?: string,
+): Promise<{ code: number; stdout: string; stderr: string }> {
   const cmd = new Deno.Command(Deno.execPath(), {
-    args: ['run', '--allow-read', '--allow-write', '--allow-env', 'cli.ts', ...args],
+    args: [
+      'run',
+      '--allow-read',
+      '--allow-write',
+      '--allow-env',
+      '--allow-run',
+      `${Deno.cwd()}/cli.ts`,
+      ...args,
+    ],
+    cwd,
+    stdin: input === undefined ? 'inherit' : 'piped',
     stdout: 'piped',
     stderr: 'piped',
   });
 
-  const { code, stdout, stderr } = await cmd.output();
+  const child = cmd.spawn();
+  if (input !== undefined) {
+    const writer = child.stdin.getWriter();
+    await writer.write(new TextEncoder().encode(input));
+    await writer.close();
+  }
+  const { code, stdout, stderr } = await child.output();
 
   return {
     code,
@@ -19,10 +39,12 @@ async function runCLI(args: string[]): Promise<{ code: number; stdout: string; s
 }
 
 async function cleanupTestApps() {
-  try {
-    await Deno.remove('apps', { recursive: true });
-  } catch {
-    // Directory doesn't exist, ignore
+  for (const path of ['apps', '.cquver']) {
+    try {
+      await Deno.remove(path, { recursive: true });
+    } catch {
+      // Directory doesn't exist, ignore
+    }
   }
 }
 
@@ -43,6 +65,41 @@ Deno.test('CLI - shows help with --help flag', async () => {
   assert(result.stdout.includes('Usage:'));
 });
 
+Deno.test('CLI - shows per-command help', async () => {
+  const result = await runCLI(['create', '--help']);
+
+  assertEquals(result.code, 0);
+  assert(result.stdout.includes('cquver create - Generate a new handler'));
+  assert(result.stdout.includes('cquver create <type> <name> [app]'));
+  assert(result.stdout.includes('Aliases: c, generate, g'));
+  assert(result.stdout.includes('--skip-existing'));
+  assert(!result.stdout.includes('--format'));
+});
+
+Deno.test('CLI - suggests corrections for mistyped actions and types', async () => {
+  const action = await runCLI(['craete', 'command', 'CreateUser', 'test-service']);
+  assertEquals(action.code, 1);
+  assert(action.stderr.includes('Did you mean "create"?'));
+
+  const type = await runCLI(['test-service', 'create', 'qeury', 'GetUser']);
+  assertEquals(type.code, 1);
+  assert(type.stderr.includes('Did you mean "query"?'));
+});
+
+Deno.test('CLI - accepts the documented argument order and aliases', async () => {
+  await cleanupTestApps();
+
+  try {
+    const result = await runCLI(['g', 'q', 'GetUser', 'test-service']);
+
+    assertEquals(result.code, 0);
+    assert(result.stdout.includes('Successfully generated query "GetUser"'));
+    assert(await exists('apps/test-service/src/application/queries/get-user/get-user.query.ts'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
 Deno.test('CLI - fails with invalid arguments', async () => {
   const result = await runCLI(['invalid']);
 
@@ -54,7 +111,11 @@ Deno.test('CLI - fails with unsupported action', async () => {
   const result = await runCLI(['test-service', 'delete', 'event', 'TestEvent']);
 
   assertEquals(result.code, 1);
-  assert(result.stderr.includes('Action must be "init" or "create"'));
+  assert(
+    result.stderr.includes(
+      'Action must be "init", "create", "remove", "rename", "undo", "list", "doctor", "sync", "watch", "apply", "plan" or "completions"',
+    ),
+  );
 });
 
 Deno.test('CLI - fails with unsupported type', async () => {
@@ -411,3 +472,849 @@ Deno.test('CLI - init command works with kebab-case and PascalCase app names', a
     await cleanupTestApps();
   }
 });
+
+Deno.test('CLI - create --dry-run prints a plan without writing files', async () => {
+  await cleanupTestApps();
+
+  try {
+    await Deno.mkdir('apps/test-service/src', { recursive: true });
+    const result = await runCLI(['test-service', 'create', 'command', 'CreateUser', '--dry-run']);
+
+    assertEquals(result.code, 0);
+    assert(result.stdout.includes('Plan:'));
+    assert(
+      result.stdout.includes(
+        'create    apps/test-service/src/application/commands/create-user/create-user.command.ts',
+      ),
+    );
+    assert(result.stdout.includes('+++ b/apps/test-service/src/application/commands/index.ts'));
+    assert(result.stdout.includes('+export const CommandHandlers = ['));
+    assert(result.stdout.includes('+++ b/apps/test-service/src/test-service.module.ts'));
+    assert(result.stdout.includes('Dry run: no files were written'));
+    assert(!result.stdout.includes('Successfully generated'));
+
+    assert(!(await exists('apps/test-service/src/application')));
+    assert(!(await exists('apps/test-service/src/test-service.module.ts')));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - init --dry-run lists directories without creating them', async () => {
+  await cleanupTestApps();
+
+  try {
+    await Deno.mkdir('apps/test-service/src', { recursive: true });
+    const result = await runCLI(['test-service', 'init', '--dry-run']);
+
+    assertEquals(result.code, 0);
+    assert(result.stdout.includes('mkdir     apps/test-service/src/application/commands'));
+    assert(result.stdout.includes('mkdir     apps/test-service/src/domain/services'));
+    // Shared parents are listed once
+    assertEquals(result.stdout.split('mkdir     apps/test-service/src/application\n').length, 2);
+    assert(!(await exists('apps/test-service/src/application')));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - create fails when the component already exists', async () => {
+  await cleanupTestApps();
+
+  try {
+    await runCLI(['test-service', 'create', 'event', 'UserCreated']);
+    const result = await runCLI(['test-service', 'create', 'event', 'UserCreated']);
+
+    assertEquals(result.code, 1);
+    assert(result.stderr.includes('UserCreatedEvent already exists'));
+    assert(result.stderr.includes('user-created.event.ts'));
+    assert(result.stderr.includes('--force'));
+
+    const forced = await runCLI(['test-service', 'create', 'event', 'UserCreated', '--force']);
+    assertEquals(forced.code, 0);
+    assert(forced.stdout.includes('Overwrote file'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - remove deletes a component and unwires it', async () => {
+  await cleanupTestApps();
+
+  try {
+    await runCLI(['test-service', 'create', 'command', 'CreateUser']);
+    await runCLI(['test-service', 'create', 'command', 'DeleteUser']);
+
+    const result = await runCLI(['test-service', 'remove', 'command', 'CreateUser']);
+
+    assertEquals(result.code, 0);
+    assert(
+      result.stdout.includes('Successfully removed command "CreateUser" from app "test-service"'),
+    );
+    assert(!(await exists('apps/test-service/src/application/commands/create-user')));
+
+    const commandsIndex = await Deno.readTextFile(
+      'apps/test-service/src/application/commands/index.ts',
+    );
+    assert(!commandsIndex.includes('CreateUserCommand'));
+    assert(commandsIndex.includes('DeleteUserCommandHandler'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - remove fails for a missing component', async () => {
+  await cleanupTestApps();
+
+  try {
+    const result = await runCLI(['test-service', 'remove', 'query', 'GetUser']);
+
+    assertEquals(result.code, 1);
+    assert(result.stderr.includes('GetUserQuery does not exist'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - rename moves a command and updates references', async () => {
+  await cleanupTestApps();
+
+  try {
+    await runCLI(['test-service', 'create', 'command', 'CreateUser']);
+
+    const result = await runCLI([
+      'test-service',
+      'rename',
+      'command',
+      'CreateUser',
+      'RegisterUser',
+    ]);
+
+    assertEquals(result.code, 0);
+    assert(result.stdout.includes('Successfully renamed command "CreateUser" to "RegisterUser"'));
+
+    const commandPath = 'apps/test-service/src/application/commands';
+    assert(!(await exists(`${commandPath}/create-user`)));
+    assert(await exists(`${commandPath}/register-user/register-user.command.ts`));
+
+    const commandsIndex = await Deno.readTextFile(`${commandPath}/index.ts`);
+    assert(commandsIndex.includes("import { RegisterUserCommandHandler } from './register-user';"));
+    assert(!commandsIndex.includes('CreateUser'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - list prints components in table, JSON and Markdown', async () => {
+  await cleanupTestApps();
+
+  try {
+    await runCLI(['test-service', 'create', 'command', 'CreateUser']);
+    await runCLI(['test-service', 'create', 'service', 'UserValidator']);
+    await runCLI(['auth-service', 'create', 'query', 'GetToken']);
+
+    const table = await runCLI(['test-service', 'list']);
+    assertEquals(table.code, 0);
+    assert(table.stdout.includes('test-service (2 components)'));
+    assert(table.stdout.includes('CreateUserCommandHandler'));
+    assert(table.stdout.includes('apps/test-service/src/domain/services/user-validator'));
+
+    const json = await runCLI(['test-service', 'list', '--format', 'json']);
+    assertEquals(JSON.parse(json.stdout), {
+      app: 'test-service',
+      components: [
+        {
+          type: 'command',
+          name: 'CreateUserCommand',
+          handler: 'CreateUserCommandHandler',
+          path: 'apps/test-service/src/application/commands/create-user',
+        },
+        {
+          type: 'service',
+          name: 'UserValidatorService',
+          path: 'apps/test-service/src/domain/services/user-validator',
+        },
+      ],
+    });
+
+    const markdown = await runCLI(['list', '--all', '--format', 'markdown']);
+    assertEquals(markdown.code, 0);
+    assert(markdown.stdout.includes('## auth-service'));
+    assert(markdown.stdout.includes('## test-service'));
+    assert(markdown.stdout.includes('| GetTokenQuery | GetTokenQueryHandler |'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - list fails for an unknown app or format', async () => {
+  await cleanupTestApps();
+
+  try {
+    const missing = await runCLI(['missing-service', 'list']);
+    assertEquals(missing.code, 1);
+    assert(missing.stderr.includes('App "missing-service" does not exist'));
+
+    await Deno.mkdir('apps/test-service', { recursive: true });
+    const format = await runCLI(['test-service', 'list', '--format', 'xml']);
+    assertEquals(format.code, 1);
+    assert(format.stderr.includes('Format must be one of: table, json, markdown'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - doctor reports drift and repairs it with --fix', async () => {
+  await cleanupTestApps();
+
+  try {
+    await runCLI(['test-service', 'create', 'command', 'CreateUser']);
+
+    // The module imports the indexes of types that have no component yet
+    const unindexed = await runCLI(['test-service', 'doctor']);
+    assertEquals(unindexed.code, 1);
+    assert(unindexed.stdout.includes('index is missing, the module imports QueryHandlers from it'));
+
+    const healthy = await runCLI(['test-service', 'doctor', '--fix']);
+    assertEquals(healthy.code, 0);
+    assert(healthy.stdout.includes('No problems found'));
+
+    // Copy a handler folder by hand, as people do
+    const commandPath = 'apps/test-service/src/application/commands';
+    await Deno.mkdir(`${commandPath}/delete-user`);
+    await Deno.writeTextFile(
+      `${commandPath}/delete-user/delete-user.handler.ts`,
+      'export class DeleteUserCommandHandler {}\n',
+    );
+
+    const broken = await runCLI(['test-service', 'doctor']);
+    assertEquals(broken.code, 1);
+    assert(
+      broken.stdout.includes(
+        'DeleteUserCommandHandler (./delete-user) is missing from CommandHandlers',
+      ),
+    );
+    assert(broken.stderr.includes('doctor --fix'));
+
+    const fixed = await runCLI(['test-service', 'doctor', '--fix']);
+    assertEquals(fixed.code, 0);
+    assert(fixed.stdout.includes('No problems found'));
+
+    const commandsIndex = await Deno.readTextFile(`${commandPath}/index.ts`);
+    assert(commandsIndex.includes('DeleteUserCommandHandler'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - sync rebuilds indexes after manual folder changes', async () => {
+  await cleanupTestApps();
+
+  try {
+    await runCLI(['test-service', 'create', 'query', 'GetUser']);
+    await runCLI(['test-service', 'create', 'query', 'ListUsers']);
+
+    // Move a folder away and lose the index in a merge
+    const queryPath = 'apps/test-service/src/application/queries';
+    await Deno.remove(`${queryPath}/list-users`, { recursive: true });
+    await Deno.writeTextFile(`${queryPath}/index.ts`, '<<<<<<< HEAD\n');
+
+    const result = await runCLI(['test-service', 'sync']);
+
+    assertEquals(result.code, 0);
+    assert(result.stdout.includes('Synced app "test-service"'));
+
+    const queriesIndex = await Deno.readTextFile(`${queryPath}/index.ts`);
+    assert(queriesIndex.includes('GetUserQueryHandler'));
+    assert(!queriesIndex.includes('ListUsers'));
+    assert(await exists('apps/test-service/src/application/commands/index.ts'));
+    // Apps without an application barrel do not get one
+    assert(!(await exists('apps/test-service/src/application/index.ts')));
+
+    const doctor = await runCLI(['test-service', 'doctor']);
+    assertEquals(doctor.code, 0);
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - detects the app from nest-cli.json and the current directory', async () => {
+  const workspace = 'test-temp/workspace';
+
+  try {
+    await Deno.mkdir(`${workspace}/apps/user-service/src`, { recursive: true });
+    await Deno.mkdir(`${workspace}/apps/billing/src`, { recursive: true });
+    await Deno.writeTextFile(
+      `${workspace}/nest-cli.json`,
+      JSON.stringify({
+        monorepo: true,
+        projects: {
+          'user-service': { type: 'application', root: 'apps/user-service' },
+          'billing': { type: 'application', root: 'apps/billing' },
+        },
+      }),
+    );
+
+    // Ambiguous from the workspace root
+    const ambiguous = await runCLI(['create', 'command', 'CreateUser'], workspace);
+    assertEquals(ambiguous.code, 1);
+    assert(ambiguous.stderr.includes('pass one of: billing, user-service'));
+
+    // Inferred from inside the app, paths stay relative to the workspace root
+    const result = await runCLI(
+      ['create', 'command', 'CreateUser'],
+      `${workspace}/apps/user-service/src`,
+    );
+    assertEquals(result.code, 0);
+    assert(result.stdout.includes('for app "user-service"'));
+    assert(
+      await exists(
+        `${workspace}/apps/user-service/src/application/commands/create-user/create-user.command.ts`,
+      ),
+    );
+
+    // Trailing app argument
+    const explicit = await runCLI(['create', 'query', 'GetInvoice', 'billing'], workspace);
+    assertEquals(explicit.code, 0);
+    assert(await exists(`${workspace}/apps/billing/src/application/queries/get-invoice`));
+  } finally {
+    await Deno.remove('test-temp', { recursive: true }).catch(() => {});
+  }
+});
+
+Deno.test('CLI - generates into the nest-cli.json root of a project named unlike its folder', async () => {
+  const workspace = 'test-temp/workspace';
+  const sourcePath = `${workspace}/apps/gateway/src`;
+
+  try {
+    await Deno.mkdir(sourcePath, { recursive: true });
+    await Deno.writeTextFile(
+      `${sourcePath}/gateway.module.ts`,
+      "import { Module } from '@nestjs/common';\n\n@Module({})\nexport class GatewayModule {}\n",
+    );
+    await Deno.writeTextFile(
+      `${workspace}/nest-cli.json`,
+      JSON.stringify({
+        monorepo: true,
+        projects: {
+          api: { type: 'application', root: 'apps/gateway', sourceRoot: 'apps/gateway/src' },
+        },
+      }),
+    );
+
+    const result = await runCLI(['create', 'command', 'CreateUser'], sourcePath);
+
+    assertEquals(result.code, 0);
+    assert(result.stdout.includes('for app "api"'));
+    assert(await exists(`${sourcePath}/application/commands/create-user/create-user.command.ts`));
+    const moduleContent = await Deno.readTextFile(`${sourcePath}/gateway.module.ts`);
+    assert(moduleContent.includes('...CommandHandlers'));
+    assert(!(await exists(`${workspace}/apps/api`)));
+  } finally {
+    await Deno.remove('test-temp', { recursive: true }).catch(() => {});
+  }
+});
+
+Deno.test('CLI - generates into nest-cli.json libraries', async () => {
+  const workspace = 'test-temp/workspace';
+  const sourcePath = `${workspace}/libs/shared/src`;
+
+  try {
+    await Deno.mkdir(`${workspace}/apps/user-service/src`, { recursive: true });
+    await Deno.mkdir(sourcePath, { recursive: true });
+    await Deno.writeTextFile(
+      `${workspace}/nest-cli.json`,
+      JSON.stringify({
+        monorepo: true,
+        projects: {
+          'user-service': { type: 'application', root: 'apps/user-service' },
+          'shared': { type: 'library', root: 'libs/shared' },
+        },
+      }),
+    );
+
+    const result = await runCLI(['create', 'event', 'UserCreated', '--lib', 'shared'], workspace);
+    assertEquals(result.code, 0);
+    assert(result.stdout.includes('for library "shared"'));
+    assert(await exists(`${sourcePath}/application/events/user-created/user-created.event.ts`));
+
+    // Detected from inside the library
+    const service = await runCLI(['create', 'service', 'UserValidator'], sourcePath);
+    assertEquals(service.code, 0);
+    assert(await exists(`${sourcePath}/domain/services/user-validator`));
+
+    const moduleContent = await Deno.readTextFile(`${sourcePath}/shared.module.ts`);
+    assert(moduleContent.includes('...EventHandlers'));
+    assert(moduleContent.includes('...Services'));
+    assert(!(await exists(`${workspace}/apps/user-service/src/application`)));
+
+    // The only app is still the default outside of the library
+    const command = await runCLI(['create', 'command', 'CreateUser'], workspace);
+    assertEquals(command.code, 0);
+    assert(command.stdout.includes('for app "user-service"'));
+
+    // Libraries are listed after the apps
+    const table = await runCLI(['list', '--all'], workspace);
+    assertEquals(table.code, 0);
+    assert(table.stdout.includes('📦 user-service (1 components)'));
+    assert(table.stdout.includes('📚 shared (library, 2 components)'));
+    assert(table.stdout.indexOf('user-service') < table.stdout.indexOf('shared'));
+    assert(table.stdout.includes('libs/shared/src/domain/services/user-validator'));
+
+    const markdown = await runCLI(['list', '--all', '--format', 'markdown'], workspace);
+    assert(markdown.stdout.includes('## shared (library)'));
+    assert(markdown.stdout.includes('| UserCreatedEvent | UserCreatedEventHandler |'));
+  } finally {
+    await Deno.remove('test-temp', { recursive: true }).catch(() => {});
+  }
+});
+
+Deno.test('CLI - generates into standalone projects', async () => {
+  const workspace = 'test-temp/standalone';
+
+  try {
+    await Deno.mkdir(`${workspace}/src`, { recursive: true });
+    await Deno.writeTextFile(
+      `${workspace}/nest-cli.json`,
+      JSON.stringify({ collection: '@nestjs/schematics', sourceRoot: 'src' }),
+    );
+    await Deno.writeTextFile(
+      `${workspace}/src/app.module.ts`,
+      `import { Module } from '@nestjs/common';
+
+@Module({
+  imports: [],
+  controllers: [],
+  providers: [],
+})
+export class AppModule {}
+`,
+    );
+
+    const init = await runCLI(['init'], workspace);
+    assertEquals(init.code, 0);
+    assert(await exists(`${workspace}/src/application/commands`));
+
+    const result = await runCLI(['create', 'command', 'CreateUser'], `${workspace}/src`);
+    assertEquals(result.code, 0);
+    assert(result.stdout.includes('for project "standalone"'));
+    assert(
+      await exists(`${workspace}/src/application/commands/create-user/create-user.command.ts`),
+    );
+
+    const moduleContent = await Deno.readTextFile(`${workspace}/src/app.module.ts`);
+    assert(moduleContent.includes("from './application/commands'"));
+    assert(moduleContent.includes('...CommandHandlers'));
+    assert(!(await exists(`${workspace}/src/standalone.module.ts`)));
+    assert(!(await exists(`${workspace}/apps`)));
+
+    const list = await runCLI(['list', '--all'], workspace);
+    assertEquals(list.code, 0);
+    assert(list.stdout.includes('📦 standalone (1 components)'));
+    assert(list.stdout.includes('src/application/commands/create-user'));
+  } finally {
+    await Deno.remove('test-temp', { recursive: true }).catch(() => {});
+  }
+});
+
+Deno.test('CLI - --json prints one result with files, classes and warnings', async () => {
+  await cleanupTestApps();
+
+  try {
+    const created = await runCLI(['create', 'command', 'CreateUser', 'test-service', '--json']);
+    assertEquals(created.code, 0);
+    const result = JSON.parse(created.stdout);
+    assertEquals(result.ok, true);
+    assertEquals(result.action, 'create');
+    assertEquals(result.app, 'test-service');
+    assertEquals(result.classes, ['CreateUserCommand', 'CreateUserCommandHandler']);
+    assert(
+      result.files.created.includes(
+        'apps/test-service/src/application/commands/create-user/create-user.command.ts',
+      ),
+    );
+    assert(result.files.created.includes('apps/test-service/src/test-service.module.ts'));
+
+    // A leftover import becomes a warning instead of a log line
+    await Deno.writeTextFile(
+      'apps/test-service/src/user.controller.ts',
+      "import { CreateUserCommand } from './application/commands';\n",
+    );
+    const removed = await runCLI(['remove', 'command', 'CreateUser', 'test-service', '--json']);
+    assertEquals(removed.code, 0);
+    assertEquals(removed.stderr, '');
+    assertEquals(JSON.parse(removed.stdout).warnings, [
+      'apps/test-service/src/user.controller.ts still imports CreateUserCommand',
+    ]);
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - --json reports failures with stable error codes', async () => {
+  await cleanupTestApps();
+
+  try {
+    await runCLI(['test-service', 'create', 'event', 'UserCreated']);
+
+    const conflict = await runCLI(['test-service', 'create', 'event', 'UserCreated', '--json']);
+    assertEquals(conflict.code, 1);
+    const result = JSON.parse(conflict.stdout);
+    assertEquals(result.ok, false);
+    assertEquals(result.error.code, 'COMPONENT_EXISTS');
+    assert(result.error.message.includes('UserCreatedEvent already exists'));
+
+    const missing = await runCLI(['test-service', 'remove', 'query', 'GetUser', '--json']);
+    assertEquals(JSON.parse(missing.stdout).error.code, 'COMPONENT_NOT_FOUND');
+
+    const invalid = await runCLI(['test-service', 'craete', 'event', 'X', '--json']);
+    assertEquals(invalid.code, 1);
+    assertEquals(JSON.parse(invalid.stdout).error.code, 'INVALID_ARGUMENTS');
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - --quiet and --verbose control how much is logged', async () => {
+  await cleanupTestApps();
+
+  try {
+    const quiet = await runCLI(['create', 'command', 'CreateUser', 'test-service', '--quiet']);
+    assertEquals(quiet.code, 0);
+    assertEquals(quiet.stdout, '');
+
+    // A hand-written module without wiring makes the module manager explain its edits
+    await Deno.writeTextFile(
+      'apps/test-service/src/test-service.module.ts',
+      "import { Module } from '@nestjs/common';\n\n@Module({\n  providers: [],\n})\n" +
+        'export class TestServiceModule {}\n',
+    );
+    const verbose = await runCLI(['create', 'query', 'GetUser', 'test-service', '--verbose']);
+    assertEquals(verbose.code, 0);
+    assert(verbose.stdout.includes('"GetUser" becomes class GetUserQuery in folder get-user'));
+    assert(verbose.stdout.includes('Module has no `import { QueryHandlers } from'));
+    assert(verbose.stdout.includes('Module providers do not spread QueryHandlers'));
+    assert(verbose.stdout.includes('✅ Successfully generated query "GetUser"'));
+    // Piped output is meant for logs, no color codes
+    assert(!verbose.stdout.includes('\x1b['));
+
+    const debug = await runCLI(['sync', 'test-service', '--debug']);
+    assert(debug.stdout.includes('🐛 Resolved app "test-service" from the command line'));
+
+    const failed = await runCLI(['remove', 'command', 'Missing', 'test-service', '-q']);
+    assertEquals(failed.code, 1);
+    assertEquals(failed.stdout, '');
+    assert(failed.stderr.includes('❌ MissingCommand does not exist'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - completions prints scripts and __complete lists candidates', async () => {
+  await cleanupTestApps();
+
+  try {
+    const script = await runCLI(['completions', 'zsh']);
+    assertEquals(script.code, 0);
+    assert(script.stdout.includes('compdef _cquver cquver'));
+
+    const invalid = await runCLI(['completions', 'powershell']);
+    assertEquals(invalid.code, 1);
+    assert(invalid.stderr.includes('Shell must be one of: bash, zsh, fish.'));
+
+    await runCLI(['create', 'command', 'CreateUser', 'test-service']);
+    const candidates = await runCLI(['__complete', 'test-service', 'remove', 'command', '']);
+    assertEquals(candidates.code, 0);
+    assertEquals(candidates.stdout, 'create-user\n');
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - apply generates every component of a manifest', async () => {
+  const workspace = 'test-temp/workspace';
+  const appPath = `${workspace}/apps/user-service`;
+
+  try {
+    await Deno.mkdir(`${appPath}/src`, { recursive: true });
+    await Deno.writeTextFile(`${workspace}/nest-cli.json`, JSON.stringify({ monorepo: true }));
+    await Deno.writeTextFile(
+      `${appPath}/domain.yaml`,
+      'commands:\n  - CreateUser\n  - name: UpdateUser\n    properties:\n      id: string\n' +
+        'queries: [GetUser]\n',
+    );
+
+    const missing = await runCLI(['user-service', 'apply'], workspace);
+    assertEquals(missing.code, 1);
+    assert(missing.stderr.includes('App "user-service" has no cquver.domain.yaml'));
+
+    // The manifest path is relative to the current directory
+    const result = await runCLI(['apply', '-f', 'domain.yaml', '--json'], appPath);
+    assertEquals(result.code, 0);
+    const json = JSON.parse(result.stdout);
+    assertEquals(json.app, 'user-service');
+    assertEquals(json.classes, [
+      'CreateUserCommand',
+      'CreateUserCommandHandler',
+      'UpdateUserCommand',
+      'UpdateUserCommandHandler',
+      'GetUserQuery',
+      'GetUserQueryHandler',
+    ]);
+
+    const command = await Deno.readTextFile(
+      `${appPath}/src/application/commands/update-user/update-user.command.ts`,
+    );
+    assert(command.includes('public readonly id: string,'));
+  } finally {
+    await Deno.remove('test-temp', { recursive: true }).catch(() => {});
+  }
+});
+
+Deno.test('CLI - plan and apply reconcile with cquver.domain.yaml', async () => {
+  await cleanupTestApps();
+
+  try {
+    await runCLI(['create', 'command', 'LegacyImport', 'test-service']);
+    await Deno.writeTextFile(
+      'apps/test-service/cquver.domain.yaml',
+      'commands: [CreateUser]\n',
+    );
+
+    const plan = await runCLI(['test-service', 'plan']);
+    assertEquals(plan.code, 0);
+    assert(plan.stdout.includes('+ command   CreateUser'));
+    assert(plan.stdout.includes('- command   legacy-import (not declared, kept without --prune)'));
+
+    const applied = await runCLI(['test-service', 'apply']);
+    assertEquals(applied.code, 0);
+    assert(applied.stdout.includes('1 created, 0 deleted'));
+    assert(await exists('apps/test-service/src/application/commands/legacy-import'));
+
+    const pruned = await runCLI(['test-service', 'apply', '--prune']);
+    assertEquals(pruned.code, 0);
+    assert(pruned.stdout.includes('0 created, 1 deleted'));
+    assert(!(await exists('apps/test-service/src/application/commands/legacy-import')));
+
+    const clean = await runCLI(['test-service', 'plan']);
+    assert(clean.stdout.includes('"test-service" matches cquver.domain.yaml'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - create -i asks for the component on piped input', async () => {
+  await cleanupTestApps();
+
+  try {
+    await Deno.mkdir('apps/test-service/src', { recursive: true });
+
+    const result = await runCLI(
+      ['test-service', 'create', '-i'],
+      undefined,
+      'query\nget-user\ny\nid: string\n\n\n',
+    );
+    assertEquals(result.code, 0, result.stderr);
+    assert(result.stdout.includes('classes: GetUserQuery, GetUserQueryHandler'));
+    assert(result.stdout.includes('Successfully generated query "get-user"'));
+
+    const query = await Deno.readTextFile(
+      'apps/test-service/src/application/queries/get-user/get-user.query.ts',
+    );
+    assert(query.includes('public readonly id: string'));
+
+    // Declining writes nothing, running out of input cancels
+    const declined = await runCLI(['create', '-i'], undefined, 'event\nuser-created\nn\nn\n');
+    assertEquals(declined.code, 0);
+    assert(!(await exists('apps/test-service/src/application/events/user-created')));
+    const cancelled = await runCLI(['create', '-i'], undefined, 'event\n');
+    assertEquals(cancelled.code, 1);
+    assert(cancelled.stdout.includes('Cancelled, nothing was written'));
+
+    const rejected = await runCLI(['list', '-i']);
+    assertEquals(rejected.code, 1);
+    assert(rejected.stderr.includes('The list command cannot be run interactively.'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - undo rolls back the last create and refuses after edits', async () => {
+  await cleanupTestApps();
+  const commandsPath = 'apps/test-service/src/application/commands';
+
+  try {
+    await Deno.mkdir('apps/test-service/src', { recursive: true });
+    await runCLI(['init', 'test-service']);
+    await runCLI(['create', 'command', 'CreateUser', 'test-service']);
+    const index = await Deno.readTextFile(`${commandsPath}/index.ts`);
+    await runCLI(['create', 'command', 'CreatUser', 'test-service']);
+
+    const dryRun = await runCLI(['undo', '--dry-run']);
+    assertEquals(dryRun.code, 0);
+    assert(dryRun.stdout.includes(`- delete    ${commandsPath}/creat-user`));
+    assert(await exists(`${commandsPath}/creat-user`));
+
+    const undo = await runCLI(['undo']);
+    assertEquals(undo.code, 0, undo.stderr);
+    assert(undo.stdout.includes('Undid "cquver test-service create command CreatUser"'));
+    assert(!(await exists(`${commandsPath}/creat-user`)));
+    assertEquals(await Deno.readTextFile(`${commandsPath}/index.ts`), index);
+
+    // The create before it can be undone next, unless its files were edited
+    await Deno.writeTextFile(`${commandsPath}/index.ts`, `${index}// edited\n`);
+    const refused = await runCLI(['undo']);
+    assertEquals(refused.code, 1);
+    assert(refused.stderr.includes(`these files were edited since:\n  ${commandsPath}/index.ts`));
+    assert(await exists(`${commandsPath}/create-user`));
+
+    await Deno.writeTextFile(`${commandsPath}/index.ts`, index);
+    assertEquals((await runCLI(['undo'])).code, 0);
+    assert(!(await exists(`${commandsPath}/create-user`)));
+
+    // Undoing init leaves the app as it was before, without warnings about its own folders
+    const undoInit = await runCLI(['undo']);
+    assertEquals(undoInit.code, 0);
+    assertEquals(undoInit.stderr, '');
+    assert(!(await exists('apps/test-service/src/application')));
+    assert(await exists('apps/test-service/src'));
+
+    const empty = await runCLI(['undo', '--json']);
+    assertEquals(empty.code, 1);
+    assertEquals(JSON.parse(empty.stdout).error.code, 'NOTHING_TO_UNDO');
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CLI - picks the template preset from cquver.json or --preset', async () => {
+  const workspace = 'test-temp/workspace';
+  const commandsPath = `${workspace}/apps/user-service/src/application/commands`;
+
+  try {
+    await Deno.mkdir(`${workspace}/apps/user-service/src`, { recursive: true });
+    await Deno.writeTextFile(`${workspace}/nest-cli.json`, JSON.stringify({ monorepo: true }));
+    await Deno.writeTextFile(`${workspace}/cquver.json`, JSON.stringify({ preset: 'minimal' }));
+
+    assertEquals((await runCLI(['create', 'command', 'CreateUser'], workspace)).code, 0);
+    const minimal = await Deno.readTextFile(`${commandsPath}/create-user/create-user.handler.ts`);
+    assert(!minimal.includes('console.log'));
+    assert(!minimal.includes('Logger'));
+
+    const strict = await runCLI(
+      ['create', 'command', 'DeleteUser', '--preset', 'strict'],
+      workspace,
+    );
+    assertEquals(strict.code, 0, strict.stderr);
+    const handler = await Deno.readTextFile(`${commandsPath}/delete-user/delete-user.handler.ts`);
+    assert(handler.includes('new Logger(DeleteUserCommandHandler.name)'));
+
+    const invalid = await runCLI(['create', 'command', 'X', '--preset', 'loud'], workspace);
+    assertEquals(invalid.code, 1);
+    assert(invalid.stderr.includes('Preset must be one of: minimal, documented, strict.'));
+  } finally {
+    await Deno.remove('test-temp', { recursive: true }).catch(() => {});
+  }
+});
+
+Deno.test('CLI - creates component types registered by cquver.json plugins', async () => {
+  const workspace = 'test-temp/workspace';
+  const appPath = `${workspace}/apps/order-service`;
+
+  try {
+    await Deno.mkdir(`${appPath}/src`, { recursive: true });
+    await Deno.mkdir(`${workspace}/cquver`, { recursive: true });
+    await Deno.writeTextFile(`${workspace}/nest-cli.json`, JSON.stringify({ monorepo: true }));
+    await Deno.writeTextFile(
+      `${workspace}/cquver.json`,
+      JSON.stringify({ plugins: ['./cquver/policy.plugin.ts'] }),
+    );
+    await Deno.writeTextFile(
+      `${workspace}/cquver/policy.plugin.ts`,
+      `export default {
+  register(registry) {
+    registry.register({
+      name: 'policy',
+      aliases: ['pol'],
+      description: 'authorization rule',
+      plural: 'policies',
+      label: 'Policies',
+      layer: 'domain',
+      folder: 'policies',
+      suffix: 'Policy',
+      fileSuffix: 'policy',
+      providerArray: 'Policies',
+      index: 'classes',
+      module: 'providers',
+      properties: false,
+      templates: {
+        main: (context) => \`export class \${context.className} {}\\n\`,
+        index: (context) =>
+          \`export { \${context.className} } from './\${context.fileName}.\${context.fileSuffix}';\\n\`,
+      },
+    });
+  },
+};
+`,
+    );
+
+    const result = await runCLI(['create', 'pol', 'CanCancelOrder'], appPath);
+    assertEquals(result.code, 0);
+    assert(
+      await exists(
+        `${appPath}/src/domain/policies/can-cancel-order/can-cancel-order.policy.ts`,
+      ),
+    );
+
+    const list = await runCLI(['list', '--format', 'markdown'], appPath);
+    assert(list.stdout.includes('### Policies'));
+    assert(list.stdout.includes('| CanCancelOrderPolicy | - |'));
+
+    const unknown = await runCLI(['create', 'polcy', 'CanCancelOrder'], appPath);
+    assertEquals(unknown.code, 1);
+    assert(unknown.stderr.includes('Unknown type "polcy". Did you mean "policy"?'));
+  } finally {
+    await Deno.remove('test-temp', { recursive: true }).catch(() => {});
+  }
+});
+
+Deno.test('CLI - runs hooks from cquver.json around create', async () => {
+  const workspace = 'test-temp/workspace';
+  const commandsPath = `${workspace}/apps/user-service/src/application/commands`;
+
+  try {
+    await Deno.mkdir(`${workspace}/apps/user-service/src`, { recursive: true });
+    await Deno.writeTextFile(`${workspace}/nest-cli.json`, JSON.stringify({ monorepo: true }));
+    await Deno.writeTextFile(
+      `${workspace}/cquver.json`,
+      JSON.stringify({
+        hooks: {
+          preGenerate: ['test ! -e frozen'],
+          postGenerate: ['for file in {files}; do echo "// checked" >> "$file"; done'],
+        },
+      }),
+    );
+
+    const created = await runCLI(['create', 'command', 'CreateUser'], workspace);
+    assertEquals(created.code, 0, created.stderr);
+    assert(created.stdout.includes('🪝 preGenerate: test ! -e frozen'));
+    const handler = await Deno.readTextFile(`${commandsPath}/create-user/create-user.handler.ts`);
+    assert(handler.endsWith('}\n// checked\n'));
+
+    // Undo accepts the files as the hooks left them
+    assertEquals((await runCLI(['undo'], workspace)).code, 0);
+    assert(!(await exists(`${commandsPath}/create-user`)));
+
+    await Deno.writeTextFile(`${workspace}/frozen`, '');
+    const vetoed = await runCLI(['create', 'command', 'DeleteUser'], workspace);
+    assertEquals(vetoed.code, 1);
+    assert(
+      vetoed.stderr.includes(
+        'preGenerate hook "test ! -e frozen" failed with exit code 1, nothing was written',
+      ),
+    );
+    assert(!(await exists(`${commandsPath}/delete-user`)));
+  } finally {
+    await Deno.remove('test-temp', { recursive: true }).catch(() => {});
+  }
+});
@@ -0,0 +1,231 @@
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { applyCodeStyle, DEFAULT_CODE_STYLE, loadCodeStyle } from '../src/code-style.ts';
+import { ConfigService } from '../src/config.service.ts';
+import { CquverError } from '../src/errors.ts';
+import { GeneratorService } from '../src/generator.service.ts';
+
+const TEST_DIR = 'test-temp';
+const SOURCE_PATH = 'apps/test-service/src';
+
+const CODE = `import { Module } from '@nestjs/common';
+
+// It's kept as is: 'quoted', with a comma,
+export const Handlers = [
+  First,
+  Second,
+];
+
+export class Example {
+  constructor(
+    public readonly id: string,
+  ) {}
+
+  describe() {
+    return \`Example \${this.id}\`;
+  }
+}
+`;
+
+// Test utilities
+async function cleanupTestDirs() {
+  for (const path of ['apps', TEST_DIR]) {
+    try {
+      await Deno.remove(path, { recursive: true });
+    } catch {
+      // Directory doesn't exist, ignore
+    }
+  }
+}
+
+async function writeFiles(files: Record<string, string>) {
+  await Deno.mkdir(TEST_DIR, { recursive: true });
+  for (const [name, content] of Object.entries(files)) {
+    await Deno.writeTextFile(`${TEST_DIR}/${name}`, content);
+  }
+}
+
+Deno.test('applyCodeStyle - keeps code in the default style unchanged', () => {
+  assertEquals(applyCodeStyle(CODE, DEFAULT_CODE_STYLE), CODE);
+});
+
+Deno.test('applyCodeStyle - rewrites quotes, indentation, semicolons and trailing commas', () => {
+  const styled = applyCodeStyle(CODE, {
+    quote: '"',
+    indent: '\t',
+    semicolons: false,
+    trailingCommas: 'none',
+  });
+
+  assertEquals(
+    styled,
+    `import { Module } from "@nestjs/common"
+
+// It's kept as is: 'quoted', with a comma,
+export const Handlers = [
+\tFirst,
+\tSecond
+]
+
+export class Example {
+\tconstructor(
+\t\tpublic readonly id: string
+\t) {}
+
+\tdescribe() {
+\t\treturn \`Example \${this.id}\`
+\t}
+}
+`,
+  );
+
+  // es5 keeps the commas of arrays and objects, but not of parameters
+  const es5 = applyCodeStyle(CODE, { ...DEFAULT_CODE_STYLE, trailingCommas: 'es5' });
+  assert(es5.includes('  Second,\n];'));
+  assert(es5.includes('    public readonly id: string\n  ) {}'));
+
+  // A string containing the target quote keeps its quotes
+  assertEquals(
+    applyCodeStyle(`log('say "hi"', 'it\\'s');\n`, { ...DEFAULT_CODE_STYLE, quote: '"' }),
+    `log('say "hi"', "it's");\n`,
+  );
+});
+
+Deno.test('applyCodeStyle - re-indents comments but not lines inside template literals', () => {
+  const code = `export class Example {
+  /**
+   * Renders the page
+   */
+  render() {
+    return \`
+  <p>
+    \${this.id}
+  </p>\`;
+  }
+}
+`;
+
+  assertEquals(
+    applyCodeStyle(code, { ...DEFAULT_CODE_STYLE, indent: '\t' }),
+    `export class Example {
+\t/**
+\t * Renders the page
+\t */
+\trender() {
+\t\treturn \`
+  <p>
+    \${this.id}
+  </p>\`;
+\t}
+}
+`,
+  );
+});
+
+Deno.test('loadCodeStyle - reads .editorconfig and lets .prettierrc win', async () => {
+  await cleanupTestDirs();
+
+  try {
+    assertEquals(await loadCodeStyle(TEST_DIR), DEFAULT_CODE_STYLE);
+
+    await writeFiles({
+      '.editorconfig': [
+        'root = true',
+        '[*]',
+        'indent_style = space',
+        'indent_size = 4',
+        '[*.{ts,js}]',
+        'quote_type = double',
+        '[*.md]',
+        'indent_size = 2',
+      ].join('\n'),
+    });
+    assertEquals(await loadCodeStyle(TEST_DIR), {
+      quote: '"',
+      indent: '    ',
+      semicolons: true,
+      trailingCommas: 'all',
+    });
+
+    // Prettier defaults to double quotes, its indentation falls back to .editorconfig
+    await writeFiles({ '.prettierrc': 'semi: false\ntrailingComma: es5\n' });
+    assertEquals(await loadCodeStyle(TEST_DIR), {
+      quote: '"',
+      indent: '    ',
+      semicolons: false,
+      trailingCommas: 'es5',
+    });
+
+    await Deno.remove(`${TEST_DIR}/.prettierrc`);
+    await writeFiles({ '.prettierrc.json': '{ "singleQuote": true, "useTabs": true }' });
+    assertEquals(await loadCodeStyle(TEST_DIR), {
+      quote: "'",
+      indent: '\t',
+      semicolons: true,
+      trailingCommas: 'all',
+    });
+
+    await writeFiles({ '.prettierrc.json': '{ "trailingComma": "always" }' });
+    await assertRejects(
+      () => loadCodeStyle(TEST_DIR),
+      CquverError,
+      'Invalid trailingComma "always" in .prettierrc.json, use one of: none, es5, all',
+    );
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('GeneratorService - writes components, indexes and module in code style', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeFiles({ '.prettierrc': '{ "semi": false, "tabWidth": 4 }' });
+    await Deno.mkdir(SOURCE_PATH, { recursive: true });
+    await Deno.writeTextFile(
+      `${SOURCE_PATH}/test-service.module.ts`,
+      `import { Module } from "@nestjs/common"
+import { CommandHandlers } from "./application/commands"
+
+@Module({
+    providers: [
+        ...CommandHandlers,
+    ],
+})
+export class TestServiceModule {}
+`,
+    );
+    const generator = new GeneratorService(new ConfigService(`${TEST_DIR}/cquver.json`));
+
+    await generator.generate('test-service', 'command', 'CreateUser', {
+      properties: [{ name: 'id', type: 'string' }],
+    });
+    await generator.generate('test-service', 'service', 'UserValidator');
+
+    const command = await Deno.readTextFile(
+      `${SOURCE_PATH}/application/commands/create-user/create-user.command.ts`,
+    );
+    assertEquals(
+      command,
+      `import { ICommand } from "@nestjs/cqrs"
+
+export class CreateUserCommand implements ICommand {
+    constructor(
+        public readonly id: string,
+    ) {}
+}
+`,
+    );
+    const index = await Deno.readTextFile(`${SOURCE_PATH}/application/commands/index.ts`);
+    assert(index.startsWith('import { CreateUserCommandHandler } from "./create-user"\n'));
+    assert(index.includes('export const CommandHandlers = [\n    CreateUserCommandHandler,\n]\n'));
+
+    // The existing import is recognized whatever its quotes, new ones follow the style
+    const module = await Deno.readTextFile(`${SOURCE_PATH}/test-service.module.ts`);
+    assertEquals(module.match(/CommandHandlers }/g)?.length, 1);
+    assert(module.includes('import { Services } from "./domain/services"\n'));
+    assert(module.includes('        ...CommandHandlers,\n        ...EventHandlers,\n'));
+    assert(module.includes('        ...Services,\n    ],\n})'));
+  } finally {
+    await cleanupTestDirs();
+  }
+});
@@ -0,0 +1,110 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { CommandLineError, parseCommandLine, resolveType } from '../src/command-parser.ts';
+
+function parse(positional: string[]) {
+  const { command, args, app } = parseCommandLine(positional);
+  return { command: command.name, args, app };
+}
+
+Deno.test('parseCommandLine - accepts the action first with an optional trailing app', () => {
+  assertEquals(parse(['create', 'command', 'CreateUser', 'user-service']), {
+    command: 'create',
+    args: ['command', 'CreateUser'],
+    app: 'user-service',
+  });
+  assertEquals(parse(['create', 'command', 'CreateUser']), {
+    command: 'create',
+    args: ['command', 'CreateUser'],
+    app: null,
+  });
+  assertEquals(parse(['init']), { command: 'init', args: [], app: null });
+});
+
+Deno.test('parseCommandLine - accepts the app first', () => {
+  assertEquals(parse(['user-service', 'rename', 'query', 'GetUser', 'FindUser']), {
+    command: 'rename',
+    args: ['query', 'GetUser', 'FindUser'],
+    app: 'user-service',
+  });
+  assertEquals(parse(['user-service', 'init']), {
+    command: 'init',
+    args: [],
+    app: 'user-service',
+  });
+});
+
+Deno.test('parseCommandLine - resolves action and type aliases', () => {
+  assertEquals(parse(['g', 'q', 'GetUser']).args, ['query', 'GetUser']);
+  assertEquals(parse(['c', 'cmd', 'CreateUser']).command, 'create');
+  assertEquals(parse(['generate', 'e', 'UserCreated']).args, ['event', 'UserCreated']);
+  assertEquals(parse(['user-service', 'i']).command, 'init');
+  assertEquals(parse(['create', 's', 'UserValidator']).args[0], 'service');
+  assertEquals(parse(['create', 'u', 'RegisterUser']).args[0], 'usecase');
+});
+
+Deno.test('parseCommandLine - suggests corrections for typos', () => {
+  assertThrows(
+    () => parseCommandLine(['craete', 'command', 'CreateUser']),
+    CommandLineError,
+    'Unknown action "craete". Did you mean "create"?',
+  );
+  assertThrows(
+    () => parseCommandLine(['user-service', 'lsit']),
+    CommandLineError,
+    'Unknown action "lsit". Did you mean "list"?',
+  );
+  assertThrows(
+    () => parseCommandLine(['create', 'comand', 'CreateUser']),
+    CommandLineError,
+    'Unknown type "comand". Did you mean "command"?',
+  );
+});
+
+Deno.test('parseCommandLine - reports missing and unexpected arguments', () => {
+  assertThrows(
+    () => parseCommandLine(['create', 'command']),
+    CommandLineError,
+    'Create command requires type and name',
+  );
+  assertThrows(
+    () => parseCommandLine(['rename', 'command', 'CreateUser']),
+    CommandLineError,
+    'Rename command requires type, name and new name',
+  );
+  assertThrows(
+    () => parseCommandLine(['user-service', 'sync', 'extra']),
+    CommandLineError,
+    'Unexpected argument "extra"',
+  );
+  assertThrows(
+    () => parseCommandLine(['user-service', 'delete', 'command', 'CreateUser']),
+    CommandLineError,
+    'Action must be "init", "create", "remove", "rename", "undo", "list", "doctor", "sync", "watch", "apply", "plan" or "completions"',
+  );
+});
+
+Deno.test('parseCommandLine - leaves the arguments of interactive commands to the wizard', () => {
+  const trailing = parseCommandLine(['create', 'user-service'], true);
+  assertEquals([trailing.command.name, trailing.args, trailing.app], [
+    'create',
+    [],
+    'user-service',
+  ]);
+  const leading = parseCommandLine(['user-service', 'create'], true);
+  assertEquals([leading.args, leading.app], [[], 'user-service']);
+  assertEquals(parseCommandLine(['c'], true).app, null);
+
+  assertThrows(
+    () => parseCommandLine(['remove'], true),
+    CommandLineError,
+    'The remove command cannot be run interactively.',
+  );
+});
+
+Deno.test('resolveType - rejects unknown types', () => {
+  assertThrows(
+    () => resolveType('repository'),
+    CommandLineError,
+    'Type must be "event", "command", "query", "service", or "usecase".',
+  );
+});
@@ -0,0 +1,92 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import {
+  COMPLETION_SHELLS,
+  CompletionService,
+  generateCompletionScript,
+} from '../src/completion.service.ts';
+import { GeneratorService } from '../src/generator.service.ts';
+
+const APP_NAME = 'test-service';
+
+// Test utilities
+async function cleanupTestApps() {
+  try {
+    await Deno.remove('apps', { recursive: true });
+  } catch {
+    // Directory doesn't exist, ignore
+  }
+}
+
+async function createTestApps() {
+  const generator = new GeneratorService();
+  await generator.generate(APP_NAME, 'command', 'CreateUser');
+  await generator.generate(APP_NAME, 'command', 'DeleteUser');
+  await generator.generate(APP_NAME, 'query', 'GetUser');
+  await Deno.mkdir('apps/billing', { recursive: true });
+}
+
+Deno.test('CompletionService - completes actions, apps and types', async () => {
+  await cleanupTestApps();
+
+  try {
+    await createTestApps();
+    const completion = new CompletionService();
+
+    const first = await completion.complete([], '');
+    assert(first.includes('create'));
+    assert(first.includes('billing'));
+    assert(first.includes(APP_NAME));
+
+    assertEquals(await completion.complete([APP_NAME], 're'), ['remove', 'rename']);
+    assertEquals(await completion.complete(['create'], ''), [
+      'command',
+      'query',
+      'event',
+      'service',
+      'usecase',
+    ]);
+    assertEquals(await completion.complete(['create', 'command', 'CreateOrder'], 'b'), [
+      'billing',
+    ]);
+    assertEquals(await completion.complete(['completions'], ''), COMPLETION_SHELLS);
+    assertEquals(await completion.complete(['list', '--format'], 'j'), ['json']);
+    assertEquals(await completion.complete(['create', '--preset'], ''), [
+      'minimal',
+      'documented',
+      'strict',
+    ]);
+    assertEquals(await completion.complete(['create'], '--dr'), ['--dry-run']);
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('CompletionService - completes existing component names', async () => {
+  await cleanupTestApps();
+
+  try {
+    await createTestApps();
+    const completion = new CompletionService();
+
+    assertEquals(await completion.complete([APP_NAME, 'remove', 'command'], ''), [
+      'create-user',
+      'delete-user',
+    ]);
+    assertEquals(await completion.complete([APP_NAME, 'rename', 'q'], ''), ['get-user']);
+    // New names are free text
+    assertEquals(await completion.complete([APP_NAME, 'create', 'command'], ''), []);
+    // Unknown apps yield nothing instead of an error
+    assertEquals(await completion.complete(['missing', 'remove', 'command'], ''), []);
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('generateCompletionScript - calls back into cquver for every shell', () => {
+  for (const shell of COMPLETION_SHELLS) {
+    assert(generateCompletionScript(shell).includes('cquver __complete'), shell);
+  }
+  assert(generateCompletionScript('bash').includes('complete -F _cquver cquver'));
+  assert(generateCompletionScript('zsh').includes('compdef _cquver cquver'));
+  assert(generateCompletionScript('fish').includes('complete -c cquver'));
+});
@@ -0,0 +1,249 @@
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import {
+  BUILT_IN_TYPES,
+  ComponentTypeDefinition,
+  ComponentTypeRegistry,
+} from '../src/component-types.ts';
+import { ConfigService, getTypePath } from '../src/config.service.ts';
+import { CquverError } from '../src/errors.ts';
+import { GeneratorService } from '../src/generator.service.ts';
+
+const CONFIG_PATH = 'test-temp/cquver.json';
+const DOMAIN_PATH = 'apps/test-service/src/domain';
+
+/** Registers a policy type wired into the module and a specification type that is not */
+const PLUGIN = `export default {
+  register(registry) {
+    const indexTemplate = (context) =>
+      \`export { \${context.className} } from './\${context.fileName}.\${context.fileSuffix}';\\n\`;
+
+    registry.register({
+      name: 'policy',
+      aliases: ['pol'],
+      description: 'authorization rule',
+      plural: 'policies',
+      label: 'Policies',
+      layer: 'domain',
+      folder: 'policies',
+      suffix: 'Policy',
+      fileSuffix: 'policy',
+      providerArray: 'Policies',
+      index: 'classes',
+      module: 'providers',
+      properties: false,
+      templates: {
+        main: (context) => \`@Injectable()\\nexport class \${context.className} {}\\n\`,
+        index: indexTemplate,
+      },
+    });
+    registry.register({
+      name: 'specification',
+      aliases: ['spec'],
+      description: 'business rule a candidate satisfies or not',
+      plural: 'specifications',
+      label: 'Specifications',
+      layer: 'domain',
+      folder: 'specifications',
+      suffix: 'Specification',
+      fileSuffix: 'spec',
+      providerArray: 'Specifications',
+      index: 'classes',
+      module: 'none',
+      properties: false,
+      templates: {
+        main: (context) => \`export class \${context.className} {}\\n\`,
+        index: indexTemplate,
+      },
+    });
+  },
+};
+`;
+
+// Test utilities
+async function writeWorkspace(config: unknown, plugin = PLUGIN, pluginFile = 'domain-types.ts') {
+  await Deno.mkdir('test-temp/plugins', { recursive: true });
+  await Deno.writeTextFile(CONFIG_PATH, JSON.stringify(config));
+  await Deno.writeTextFile(`test-temp/plugins/${pluginFile}`, plugin);
+}
+
+async function cleanupTestDirs() {
+  for (const path of ['apps', 'test-temp']) {
+    try {
+      await Deno.remove(path, { recursive: true });
+    } catch {
+      // Directory doesn't exist, ignore
+    }
+  }
+}
+
+function definition(overrides: Partial<ComponentTypeDefinition>): ComponentTypeDefinition {
+  return { ...BUILT_IN_TYPES.find((type) => type.name === 'service')!, ...overrides };
+}
+
+Deno.test('ComponentTypeRegistry - resolves built-in types by name and alias', () => {
+  const registry = new ComponentTypeRegistry();
+
+  assertEquals(
+    registry.list().map((type) => type.name),
+    ['command', 'event', 'query', 'usecase', 'service'],
+  );
+  assertEquals(
+    registry.listForDisplay().map((type) => type.name),
+    ['command', 'query', 'event', 'service', 'usecase'],
+  );
+  assertEquals(registry.find('cmd')?.name, 'command');
+  assertEquals(registry.find('u')?.providerArray, 'UseCases');
+  assertEquals(registry.find('policy'), undefined);
+  assertThrows(() => registry.get('policy'), CquverError, 'Unknown component type "policy"');
+});
+
+Deno.test('ComponentTypeRegistry - rejects clashing and incomplete types', () => {
+  const registry = new ComponentTypeRegistry();
+
+  assertThrows(
+    () => registry.register(definition({ name: 'policy', aliases: ['s'] })),
+    CquverError,
+    'Invalid component type "policy": "s" is already used by the service type',
+  );
+  assertThrows(
+    () => registry.register(definition({ name: 'Policy' })),
+    CquverError,
+    'Invalid component type name "Policy"',
+  );
+  assertThrows(
+    () => registry.register(definition({ name: 'policy', aliases: [], index: 'handlers' })),
+    CquverError,
+    'templates.handler is required by the handlers index',
+  );
+  assertThrows(
+    () => registry.register(definition({ name: 'policy', aliases: [], layer: undefined })),
+    CquverError,
+    'Invalid component type "policy": layer must be one of: application, domain, infrastructure',
+  );
+  assertThrows(
+    () => registry.register(definition({ name: 'policy', aliases: [], label: ' ' })),
+    CquverError,
+    'Invalid component type "policy": label must be a non-empty string',
+  );
+  assertEquals(registry.find('policy'), undefined);
+});
+
+Deno.test('ConfigService - registers plugin types relative to cquver.json', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeWorkspace({
+      plugins: ['./plugins/domain-types.ts'],
+      types: { specification: { folder: 'specs' } },
+    });
+    const configService = new ConfigService(CONFIG_PATH);
+
+    const types = await configService.getComponentTypes();
+    assertEquals(types.find('pol')?.name, 'policy');
+
+    const config = await configService.getAppConfig('test-service');
+    assertEquals(config.types.policy, {
+      layer: 'domain',
+      folder: 'policies',
+      suffix: 'Policy',
+      fileSuffix: 'policy',
+    });
+    assertEquals(
+      getTypePath(config, 'test-service', 'specification'),
+      'apps/test-service/src/domain/specs',
+    );
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('ConfigService - rejects unknown types and invalid plugins', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeWorkspace({ types: { policy: { folder: 'policies' } } });
+    await assertRejects(
+      () => new ConfigService(CONFIG_PATH).getAppConfig('test-service'),
+      CquverError,
+      'Unknown component type "policy" in test-temp/cquver.json',
+    );
+
+    await writeWorkspace(
+      { plugins: ['./plugins/invalid.ts'] },
+      'export const types = [];\n',
+      'invalid.ts',
+    );
+    await assertRejects(
+      () => new ConfigService(CONFIG_PATH).getComponentTypes(),
+      CquverError,
+      'must export default { register(registry) { ... } }',
+    );
+
+    // A new file name, imported modules are cached
+    await writeWorkspace(
+      { plugins: ['./plugins/no-layer.ts'] },
+      PLUGIN.replace(
+        "      layer: 'domain',\n      folder: 'policies',",
+        "      folder: 'policies',",
+      ),
+      'no-layer.ts',
+    );
+    const error = await assertRejects(
+      () => new ConfigService(CONFIG_PATH).getAppConfig('test-service'),
+      CquverError,
+      'Invalid component type "policy": layer must be one of: application, domain, ' +
+        'infrastructure (in plugin test-temp/plugins/no-layer.ts)',
+    );
+    assertEquals(error.code, 'INVALID_CONFIG');
+
+    await writeWorkspace({ plugins: ['./plugins/missing.ts'] });
+    await assertRejects(
+      () => new ConfigService(CONFIG_PATH).getComponentTypes(),
+      CquverError,
+      'Could not load plugin test-temp/plugins/missing.ts',
+    );
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('GeneratorService - generates plugin types and wires them by their strategy', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeWorkspace({ plugins: ['./plugins/domain-types.ts'] });
+    const generator = new GeneratorService(new ConfigService(CONFIG_PATH));
+
+    assertEquals(await generator.generate('test-service', 'policy', 'can-edit-order'), [
+      'CanEditOrderPolicy',
+    ]);
+    await generator.generate('test-service', 'specification', 'PaidOrder');
+
+    const policy = await Deno.readTextFile(
+      `${DOMAIN_PATH}/policies/can-edit-order/can-edit-order.policy.ts`,
+    );
+    assertEquals(policy, '@Injectable()\nexport class CanEditOrderPolicy {}\n');
+    const policies = await Deno.readTextFile(`${DOMAIN_PATH}/policies/index.ts`);
+    assert(policies.includes('export const Policies = [\n  CanEditOrderPolicy,\n];'));
+    const specifications = await Deno.readTextFile(`${DOMAIN_PATH}/specifications/index.ts`);
+    assert(specifications.includes('export const Specifications = [\n  PaidOrderSpecification,'));
+
+    // Policies are providers, specifications stay plain classes
+    const module = await Deno.readTextFile('apps/test-service/src/test-service.module.ts');
+    assert(module.includes("import { Policies } from './domain/policies';"));
+    assert(module.includes('    ...Policies,'));
+    assert(!module.includes('Specifications'));
+
+    assertEquals(await generator.remove('test-service', 'policy', 'CanEditOrder'), [
+      'CanEditOrderPolicy',
+    ]);
+    assert(!(await Deno.readTextFile(`${DOMAIN_PATH}/policies/index.ts`)).includes('CanEdit'));
+  } finally {
+    await cleanupTestDirs();
+  }
+});
@@ -0,0 +1,198 @@
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { exists } from 'https://deno.land/std@0.208.0/fs/exists.ts';
+import {
+  ConfigService,
+  DEFAULT_CONFIG,
+  getModuleFileName,
+  getTypePath,
+} from '../src/config.service.ts';
+import { CquverError } from '../src/errors.ts';
+import { GeneratorService } from '../src/generator.service.ts';
+
+const CONFIG_PATH = 'test-temp/cquver.json';
+
+// Test utilities
+async function writeConfig(config: unknown) {
+  await Deno.mkdir('test-temp', { recursive: true });
+  await Deno.writeTextFile(CONFIG_PATH, JSON.stringify(config));
+}
+
+async function cleanupTestDirs() {
+  for (const path of ['test-temp', 'workspace']) {
+    try {
+      await Deno.remove(path, { recursive: true });
+    } catch {
+      // Directory doesn't exist, ignore
+    }
+  }
+}
+
+Deno.test('ConfigService - falls back to defaults without a config file', async () => {
+  const configService = new ConfigService('test-temp/missing.json');
+
+  const config = await configService.getAppConfig('user-service');
+
+  assertEquals(config, DEFAULT_CONFIG);
+  assertEquals(
+    getTypePath(config, 'user-service', 'command'),
+    'apps/user-service/src/application/commands',
+  );
+  assertEquals(getModuleFileName(config, 'user-service'), 'user-service.module.ts');
+});
+
+Deno.test('ConfigService - roots standalone projects at src/ with app.module.ts', async () => {
+  const config = await new ConfigService('test-temp/missing.json', 'standalone')
+    .getAppConfig('my-api');
+
+  assertEquals(getTypePath(config, 'my-api', 'command'), 'src/application/commands');
+  assertEquals(getModuleFileName(config, 'my-api'), 'app.module.ts');
+});
+
+Deno.test('ConfigService - resolves libraries into the libs directory', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeConfig({ libs: { shared: { moduleFile: 'shared-domain.module.ts' } } });
+    const configService = new ConfigService(CONFIG_PATH, 'library');
+
+    const config = await configService.getAppConfig('shared');
+
+    assertEquals(getTypePath(config, 'shared', 'event'), 'libs/shared/src/application/events');
+    assertEquals(getModuleFileName(config, 'shared'), 'shared-domain.module.ts');
+    assertEquals(configService.describeProject('shared'), 'Library "shared"');
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('ConfigService - applies workspace config and per-app overrides', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeConfig({
+      appsDir: 'services',
+      layers: { domain: 'core' },
+      types: { command: { folder: 'use-cases/write', suffix: 'Cmd' } },
+      apps: {
+        billing: { moduleFile: 'app.module.ts', types: { service: { folder: 'logic' } } },
+      },
+    });
+    const configService = new ConfigService(CONFIG_PATH);
+
+    const userConfig = await configService.getAppConfig('user-service');
+    assertEquals(userConfig.types.command.suffix, 'Cmd');
+    assertEquals(userConfig.types.command.fileSuffix, 'command');
+    assertEquals(
+      getTypePath(userConfig, 'user-service', 'command'),
+      'services/user-service/src/application/use-cases/write',
+    );
+    assertEquals(
+      getTypePath(userConfig, 'user-service', 'service'),
+      'services/user-service/src/core/services',
+    );
+    assertEquals(getModuleFileName(userConfig, 'user-service'), 'user-service.module.ts');
+
+    const billingConfig = await configService.getAppConfig('billing');
+    assertEquals(
+      getTypePath(billingConfig, 'billing', 'service'),
+      'services/billing/src/core/logic',
+    );
+    assertEquals(getModuleFileName(billingConfig, 'billing'), 'app.module.ts');
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('ConfigService - rejects invalid config files', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await Deno.mkdir('test-temp', { recursive: true });
+    await Deno.writeTextFile(CONFIG_PATH, '{ "appsDir": ');
+
+    await assertRejects(
+      () => new ConfigService(CONFIG_PATH).getAppConfig('user-service'),
+      Error,
+      'Invalid test-temp/cquver.json',
+    );
+
+    await writeConfig({ apps: { billing: { preset: 'verbose' } } });
+    const config = new ConfigService(CONFIG_PATH);
+    assertEquals((await config.getAppConfig('user-service')).preset, 'documented');
+    await assertRejects(
+      () => config.getAppConfig('billing'),
+      Error,
+      'Invalid preset "verbose" in test-temp/cquver.json, use one of: minimal, documented, strict',
+    );
+
+    await writeConfig({ types: { command: { layer: 'presentation' } } });
+    const error = await assertRejects(
+      () => new ConfigService(CONFIG_PATH).getAppConfig('user-service'),
+      CquverError,
+      'Invalid types.command.layer "presentation" in test-temp/cquver.json, ' +
+        'use one of: application, domain, infrastructure',
+    );
+    assertEquals(error.code, 'INVALID_CONFIG');
+
+    await writeConfig({ types: { query: { folder: '' } } });
+    await assertRejects(
+      () => new ConfigService(CONFIG_PATH).getAppConfig('user-service'),
+      CquverError,
+      'Invalid types.query.folder in test-temp/cquver.json, use a non-empty string',
+    );
+
+    await writeConfig({ moduleFile: 42 });
+    await assertRejects(
+      () => new ConfigService(CONFIG_PATH).getAppConfig('user-service'),
+      CquverError,
+      'Invalid moduleFile in test-temp/cquver.json, use a non-empty string',
+    );
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('GeneratorService - generates into configured layout', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeConfig({
+      appsDir: 'workspace',
+      layers: { domain: 'core' },
+      types: {
+        command: { folder: 'writes', fileSuffix: 'cmd' },
+        service: { suffix: 'Logic' },
+      },
+      handlerFileSuffix: 'handle',
+      moduleFile: 'main.module.ts',
+    });
+    const generator = new GeneratorService(new ConfigService(CONFIG_PATH));
+
+    await generator.generate('billing', 'command', 'ChargeCard');
+    await generator.generate('billing', 'service', 'Pricing');
+
+    const commandPath = 'workspace/billing/src/application/writes/charge-card';
+    assert(await exists(`${commandPath}/charge-card.cmd.ts`));
+    assert(await exists(`${commandPath}/charge-card.handle.ts`));
+    assert(await exists('workspace/billing/src/core/services/pricing/pricing.service.ts'));
+
+    const handlerFile = await Deno.readTextFile(`${commandPath}/charge-card.handle.ts`);
+    assert(handlerFile.includes("import { ChargeCardCommand } from './charge-card.cmd';"));
+
+    const commandsIndex = await Deno.readTextFile(
+      'workspace/billing/src/application/writes/index.ts',
+    );
+    assert(commandsIndex.includes('ChargeCardCommandHandler'));
+
+    const servicesIndex = await Deno.readTextFile('workspace/billing/src/core/services/index.ts');
+    assert(servicesIndex.includes('export const Services = ['));
+    assert(servicesIndex.includes('PricingLogic'));
+
+    const moduleContent = await Deno.readTextFile('workspace/billing/src/main.module.ts');
+    assert(moduleContent.includes("import { CommandHandlers } from './application/writes';"));
+    assert(moduleContent.includes("import { Services } from './core/services';"));
+    assert(moduleContent.includes('...CommandHandlers'));
+  } finally {
+    await cleanupTestDirs();
+  }
+});
@@ -0,0 +1,95 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { DoctorService } from '../src/doctor.service.ts';
+import { GeneratorService } from '../src/generator.service.ts';
+
+const APP_NAME = 'test-service';
+const SOURCE_PATH = `apps/${APP_NAME}/src`;
+
+// Test utilities
+async function cleanupTestApps() {
+  try {
+    await Deno.remove('apps', { recursive: true });
+  } catch {
+    // Directory doesn't exist, ignore
+  }
+}
+
+Deno.test('DoctorService - finds no problems in a generated app', async () => {
+  await cleanupTestApps();
+
+  try {
+    const generator = new GeneratorService();
+    for (const type of ['command', 'query', 'event', 'service', 'usecase'] as const) {
+      await generator.generate(APP_NAME, type, 'UserAccount');
+    }
+
+    assertEquals(await new DoctorService().diagnose(APP_NAME), []);
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('DoctorService - reports stale index entries and module wiring', async () => {
+  await cleanupTestApps();
+
+  try {
+    const generator = new GeneratorService();
+    for (const type of ['command', 'query', 'event', 'service', 'usecase'] as const) {
+      await generator.generate(APP_NAME, type, 'UserAccount');
+    }
+
+    // Delete a folder by hand and drop QueryHandlers from the module
+    await Deno.remove(`${SOURCE_PATH}/application/events/user-account`, { recursive: true });
+    const modulePath = `${SOURCE_PATH}/${APP_NAME}.module.ts`;
+    const moduleContent = await Deno.readTextFile(modulePath);
+    await Deno.writeTextFile(modulePath, moduleContent.replace('    ...QueryHandlers,\n', ''));
+
+    const doctor = new DoctorService();
+    const issues = await doctor.diagnose(APP_NAME);
+
+    assertEquals(issues.map((issue) => issue.message), [
+      'EventHandlers lists UserAccountEventHandler, which was not found on disk',
+      'imports ./user-account, which does not exist',
+      'providers is missing ...QueryHandlers',
+    ]);
+    assertEquals(issues[0].file, `${SOURCE_PATH}/application/events/index.ts`);
+    assertEquals(issues[0].type, 'event');
+    assertEquals(issues[2].type, null);
+
+    await doctor.fix(APP_NAME, issues);
+
+    assertEquals(await doctor.diagnose(APP_NAME), []);
+    assert((await Deno.readTextFile(modulePath)).includes('...QueryHandlers'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('DoctorService - reports type indexes the module imports but are missing', async () => {
+  await cleanupTestApps();
+
+  try {
+    await new GeneratorService().generate(APP_NAME, 'command', 'CreateUser');
+
+    const doctor = new DoctorService();
+    const issues = await doctor.diagnose(APP_NAME);
+
+    assertEquals(issues.map((issue) => [issue.file, issue.type]), [
+      [`${SOURCE_PATH}/application/events/index.ts`, 'event'],
+      [`${SOURCE_PATH}/application/queries/index.ts`, 'query'],
+      [`${SOURCE_PATH}/application/usecases/index.ts`, 'usecase'],
+      [`${SOURCE_PATH}/domain/services/index.ts`, 'service'],
+    ]);
+    assertEquals(issues[0].message, 'index is missing, the module imports EventHandlers from it');
+
+    await doctor.fix(APP_NAME, issues);
+
+    assertEquals(await doctor.diagnose(APP_NAME), []);
+    assert(
+      (await Deno.readTextFile(`${SOURCE_PATH}/application/usecases/index.ts`))
+        .includes('export const UseCases = ['),
+    );
+  } finally {
+    await cleanupTestApps();
+  }
+});
@@ -0,0 +1,155 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { exists } from 'https://deno.land/std@0.208.0/fs/exists.ts';
+import { createUnifiedDiff } from '../src/diff.ts';
+import { CquverError } from '../src/errors.ts';
+import { FileWriterService } from '../src/file-writer.service.ts';
+import { createRunResult } from '../src/run-result.ts';
+
+const TEST_DIR = 'test-temp/file-writer';
+
+// Test utilities
+async function cleanupTestDir() {
+  try {
+    await Deno.remove('test-temp', { recursive: true });
+  } catch {
+    // Directory doesn't exist, ignore
+  }
+}
+
+Deno.test('createUnifiedDiff - renders hunks with context', () => {
+  const before = 'a\nb\nc\nd\ne\nf\ng\nh\n';
+  const after = 'a\nb\nc\nd\nE\nf\ng\nh\n';
+
+  assertEquals(
+    createUnifiedDiff('file.ts', before, after, 1),
+    '--- a/file.ts\n+++ b/file.ts\n@@ -4,3 +4,3 @@\n d\n-e\n+E\n f\n',
+  );
+  assertEquals(
+    createUnifiedDiff('file.ts', 'x\n', ''),
+    '--- a/file.ts\n+++ b/file.ts\n@@ -1 +0,0 @@\n-x\n',
+  );
+  assertEquals(createUnifiedDiff('file.ts', before, before), '');
+});
+
+Deno.test('FileWriterService - dry run records changes without touching disk', async () => {
+  await cleanupTestDir();
+  await Deno.mkdir(TEST_DIR, { recursive: true });
+
+  try {
+    await Deno.writeTextFile(`${TEST_DIR}/index.ts`, 'export const A = 1;\n');
+    const fileWriter = new FileWriterService(true);
+
+    assert(await fileWriter.ensureDir(`${TEST_DIR}/new-folder`));
+    assert(!(await fileWriter.ensureDir(TEST_DIR)));
+    await fileWriter.writeFile(`${TEST_DIR}/new-folder/file.ts`, 'content\n');
+    await fileWriter.patchFile(
+      `${TEST_DIR}/index.ts`,
+      'export const A = 1;\nexport const B = 2;\n',
+    );
+
+    // Planned content is visible to later reads
+    assertEquals(
+      await fileWriter.readTextFile(`${TEST_DIR}/index.ts`),
+      'export const A = 1;\nexport const B = 2;\n',
+    );
+    assertEquals(await Deno.readTextFile(`${TEST_DIR}/index.ts`), 'export const A = 1;\n');
+    assert(!(await exists(`${TEST_DIR}/new-folder`)));
+
+    assertEquals(fileWriter.changes.map((c) => c.action), ['create', 'patch']);
+    const plan = fileWriter.formatPlan();
+    assert(plan.includes(`+ mkdir     ${TEST_DIR}/new-folder`));
+    assert(plan.includes(`+ create    ${TEST_DIR}/new-folder/file.ts`));
+    assert(plan.includes(`~ patch     ${TEST_DIR}/index.ts`));
+    assert(plan.includes('+export const B = 2;'));
+  } finally {
+    await cleanupTestDir();
+  }
+});
+
+Deno.test('FileWriterService - concurrent ensureDir calls record shared parents once', async () => {
+  await cleanupTestDir();
+
+  try {
+    const fileWriter = new FileWriterService(true);
+
+    await Promise.all(['a', 'b', 'c'].map((dir) => fileWriter.ensureDir(`${TEST_DIR}/${dir}`)));
+
+    assertEquals(
+      fileWriter.createdDirectories.filter((dir) => dir === TEST_DIR).length,
+      1,
+    );
+  } finally {
+    await cleanupTestDir();
+  }
+});
+
+Deno.test('FileWriterService - writes files and reports overwrites', async () => {
+  await cleanupTestDir();
+  await Deno.mkdir(TEST_DIR, { recursive: true });
+
+  try {
+    await Deno.writeTextFile(`${TEST_DIR}/file.ts`, 'old\n');
+    const fileWriter = new FileWriterService();
+
+    await fileWriter.writeFile(`${TEST_DIR}/file.ts`, 'new\n');
+
+    assertEquals(await Deno.readTextFile(`${TEST_DIR}/file.ts`), 'new\n');
+    assertEquals(fileWriter.changes[0].action, 'overwrite');
+    assertEquals(fileWriter.changes[0].previousContent, 'old\n');
+  } finally {
+    await cleanupTestDir();
+  }
+});
+
+Deno.test('createRunResult - summarizes changes, warnings and errors', async () => {
+  await cleanupTestDir();
+  await Deno.mkdir(TEST_DIR, { recursive: true });
+
+  try {
+    await Deno.writeTextFile(`${TEST_DIR}/index.ts`, 'export const A = 1;\n');
+    await Deno.writeTextFile(`${TEST_DIR}/same.ts`, 'unchanged\n');
+    const fileWriter = new FileWriterService(true);
+
+    await fileWriter.ensureDir(`${TEST_DIR}/new-folder`);
+    await fileWriter.writeFile(`${TEST_DIR}/new-folder/new.ts`, 'new\n');
+    await fileWriter.patchFile(`${TEST_DIR}/index.ts`, 'export const A = 2;\n');
+    await fileWriter.patchFile(`${TEST_DIR}/same.ts`, 'unchanged\n');
+    assertEquals(
+      createRunResult(fileWriter, {
+        action: 'create',
+        app: 'test-app',
+        classes: ['A'],
+        warnings: ['something looks off'],
+      }),
+      {
+        ok: true,
+        action: 'create',
+        app: 'test-app',
+        dryRun: true,
+        files: {
+          created: [`${TEST_DIR}/new-folder/new.ts`],
+          updated: [`${TEST_DIR}/index.ts`],
+          deleted: [],
+        },
+        directories: [`${TEST_DIR}/new-folder`],
+        classes: ['A'],
+        warnings: ['something looks off'],
+      },
+    );
+
+    const failed = createRunResult(fileWriter, {
+      action: 'remove',
+      app: 'test-app',
+      error: new CquverError('COMPONENT_NOT_FOUND', 'A does not exist'),
+    });
+    assertEquals(failed.ok, false);
+    assertEquals(failed.error, { code: 'COMPONENT_NOT_FOUND', message: 'A does not exist' });
+    assertEquals(
+      createRunResult(fileWriter, { action: null, app: null, error: new Error('boom') }).error
+        ?.code,
+      'UNKNOWN_ERROR',
+    );
+  } finally {
+    await cleanupTestDir();
+  }
+});
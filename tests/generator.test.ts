@@ -1,6 +1,7 @@
-import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
 import { exists } from 'https://deno.land/std@0.208.0/fs/exists.ts';
-import { GeneratorService } from '../src/generator.service.ts';
+import { ComponentExistsError, GeneratorService } from '../src/generator.service.ts';
+import { FileWriterService } from '../src/file-writer.service.ts';
 
 // Test utilities
 async function cleanupTestDir(appName: string) {
@@ -380,3 +381,288 @@ Deno.test('GeneratorService - generate works after initializeService', async ()
     await cleanupTestDir(appName);
   }
 });
+
+Deno.test('GeneratorService - refuses to overwrite an existing component', async () => {
+  const appName = 'test-service';
+  const generator = new GeneratorService();
+  const handlerPath = `apps/${appName}/src/application/commands/create-user/create-user.handler.ts`;
+
+  await cleanupTestDir(appName);
+  await setupTestDir();
+
+  try {
+    await generator.generate(appName, 'command', 'CreateUser');
+    await Deno.writeTextFile(handlerPath, '// implemented handler');
+
+    const error = await assertRejects(
+      () => generator.generate(appName, 'command', 'CreateUser'),
+      ComponentExistsError,
+      'CreateUserCommand already exists',
+    );
+    assert(error.conflicts.includes(handlerPath));
+    assertEquals(await Deno.readTextFile(handlerPath), '// implemented handler');
+  } finally {
+    await cleanupTestDir(appName);
+  }
+});
+
+Deno.test('GeneratorService - overwrites an existing component when forced', async () => {
+  const appName = 'test-service';
+  const generator = new GeneratorService();
+  const handlerPath = `apps/${appName}/src/application/commands/create-user/create-user.handler.ts`;
+
+  await cleanupTestDir(appName);
+  await setupTestDir();
+
+  try {
+    await generator.generate(appName, 'command', 'CreateUser');
+    await Deno.writeTextFile(handlerPath, '// implemented handler');
+
+    await generator.generate(appName, 'command', 'CreateUser', { onConflict: 'overwrite' });
+
+    const handlerFile = await Deno.readTextFile(handlerPath);
+    assert(handlerFile.includes('export class CreateUserCommandHandler'));
+  } finally {
+    await cleanupTestDir(appName);
+  }
+});
+
+Deno.test('GeneratorService - skip-existing only creates missing files', async () => {
+  const appName = 'test-service';
+  const generator = new GeneratorService();
+  const folderPath = `apps/${appName}/src/application/commands/create-user`;
+
+  await cleanupTestDir(appName);
+  await setupTestDir();
+
+  try {
+    await generator.generate(appName, 'command', 'CreateUser');
+    await Deno.writeTextFile(`${folderPath}/create-user.handler.ts`, '// implemented handler');
+    await Deno.remove(`${folderPath}/index.ts`);
+
+    await generator.generate(appName, 'command', 'CreateUser', { onConflict: 'skip' });
+
+    assert(await exists(`${folderPath}/index.ts`));
+    assertEquals(
+      await Deno.readTextFile(`${folderPath}/create-user.handler.ts`),
+      '// implemented handler',
+    );
+  } finally {
+    await cleanupTestDir(appName);
+  }
+});
+
+Deno.test('GeneratorService - remove unwires component and warns about imports', async () => {
+  const appName = 'test-service';
+  const generator = new GeneratorService();
+  const sourcePath = `apps/${appName}/src`;
+
+  await cleanupTestDir(appName);
+  await setupTestDir();
+
+  try {
+    await generator.generate(appName, 'service', 'UserValidator');
+    await generator.generate(appName, 'service', 'PasswordHasher');
+
+    // Module providing the service directly and a controller importing it
+    const modulePath = `${sourcePath}/${appName}.module.ts`;
+    const moduleContent = await Deno.readTextFile(modulePath);
+    await Deno.writeTextFile(
+      modulePath,
+      "import { UserValidatorService } from './domain/services';\n" +
+        moduleContent.replace('...Services,', '...Services,\n    UserValidatorService,'),
+    );
+    await Deno.mkdir(`${sourcePath}/controllers`, { recursive: true });
+    await Deno.writeTextFile(
+      `${sourcePath}/controllers/user.controller.ts`,
+      "import { UserValidatorService } from '../domain/services';\n",
+    );
+
+    const warnings: string[] = [];
+    const originalWarn = console.warn;
+    console.warn = (message: string) => warnings.push(message);
+    try {
+      await generator.remove(appName, 'service', 'UserValidator');
+    } finally {
+      console.warn = originalWarn;
+    }
+
+    assert(!(await exists(`${sourcePath}/domain/services/user-validator`)));
+
+    const servicesIndex = await Deno.readTextFile(`${sourcePath}/domain/services/index.ts`);
+    assert(!servicesIndex.includes('UserValidatorService'));
+    assert(servicesIndex.includes('PasswordHasherService'));
+
+    const updatedModule = await Deno.readTextFile(modulePath);
+    assert(!updatedModule.includes('UserValidatorService'));
+    assert(updatedModule.includes('...Services,'));
+
+    assertEquals(warnings, [
+      `⚠️ ${sourcePath}/controllers/user.controller.ts still imports UserValidatorService`,
+    ]);
+  } finally {
+    await cleanupTestDir(appName);
+  }
+});
+
+Deno.test('GeneratorService - rename updates files, classes and import sites', async () => {
+  const appName = 'test-service';
+  const generator = new GeneratorService();
+  const sourcePath = `apps/${appName}/src`;
+  const oldPath = `${sourcePath}/application/commands/create-user`;
+  const newPath = `${sourcePath}/application/commands/register-user`;
+
+  await cleanupTestDir(appName);
+  await setupTestDir();
+
+  try {
+    await generator.generate(appName, 'command', 'CreateUser');
+    await Deno.mkdir(`${sourcePath}/controllers`, { recursive: true });
+    await Deno.writeTextFile(
+      `${sourcePath}/controllers/user.controller.ts`,
+      "import { CreateUserCommand } from '../application/commands/create-user';\n" +
+        'export const build = () => new CreateUserCommand();\n',
+    );
+    await Deno.writeTextFile(
+      `${sourcePath}/controllers/user.resolver.ts`,
+      "import { CreateUserCommand } from '../application/commands/create-user/" +
+        "create-user.command';\n" +
+        'export const resolve = () => new CreateUserCommand();\n',
+    );
+
+    await generator.rename(appName, 'command', 'CreateUser', 'RegisterUser');
+
+    assert(!(await exists(oldPath)));
+    assert(await exists(`${newPath}/register-user.command.ts`));
+    assert(await exists(`${newPath}/register-user.handler.ts`));
+
+    const handlerFile = await Deno.readTextFile(`${newPath}/register-user.handler.ts`);
+    assert(handlerFile.includes("import { RegisterUserCommand } from './register-user.command';"));
+    assert(handlerFile.includes('@CommandHandler(RegisterUserCommand)'));
+    assert(handlerFile.includes('export class RegisterUserCommandHandler'));
+
+    const indexFile = await Deno.readTextFile(`${newPath}/index.ts`);
+    assert(
+      indexFile.includes("export { RegisterUserCommandHandler } from './register-user.handler';"),
+    );
+
+    const commandsIndex = await Deno.readTextFile(`${sourcePath}/application/commands/index.ts`);
+    assert(commandsIndex.includes('RegisterUserCommandHandler'));
+    assert(!commandsIndex.includes('CreateUser'));
+
+    assertEquals(
+      await Deno.readTextFile(`${sourcePath}/controllers/user.controller.ts`),
+      "import { RegisterUserCommand } from '../application/commands/register-user';\n" +
+        'export const build = () => new RegisterUserCommand();\n',
+    );
+    // Imports of a file inside the folder follow the renamed file too
+    assertEquals(
+      await Deno.readTextFile(`${sourcePath}/controllers/user.resolver.ts`),
+      "import { RegisterUserCommand } from '../application/commands/register-user/" +
+        "register-user.command';\n" +
+        'export const resolve = () => new RegisterUserCommand();\n',
+    );
+  } finally {
+    await cleanupTestDir(appName);
+  }
+});
+
+Deno.test('GeneratorService - rename refuses to overwrite an existing component', async () => {
+  const appName = 'test-service';
+  const generator = new GeneratorService();
+
+  await cleanupTestDir(appName);
+  await setupTestDir();
+
+  try {
+    await generator.generate(appName, 'query', 'GetUser');
+    await generator.generate(appName, 'query', 'FindUser');
+
+    await assertRejects(
+      () => generator.rename(appName, 'query', 'GetUser', 'FindUser'),
+      ComponentExistsError,
+      'FindUserQuery already exists',
+    );
+    assert(await exists(`apps/${appName}/src/application/queries/get-user`));
+  } finally {
+    await cleanupTestDir(appName);
+  }
+});
+
+Deno.test('GeneratorService - generateMany updates each index and the module once', async () => {
+  const appName = 'test-service';
+  const patched: string[] = [];
+  const fileWriter = new class extends FileWriterService {
+    override async patchFile(path: string, content: string): Promise<void> {
+      patched.push(path);
+      await super.patchFile(path, content);
+    }
+  }();
+  const generator = new GeneratorService(undefined, fileWriter);
+
+  await cleanupTestDir(appName);
+  await setupTestDir();
+
+  try {
+    const classes = await generator.generateMany(appName, [
+      { type: 'command', name: 'CreateUser', properties: [{ name: 'email', type: 'string' }] },
+      { type: 'command', name: 'DeleteUser' },
+      { type: 'query', name: 'GetUser' },
+      { type: 'service', name: 'UserValidator' },
+    ]);
+
+    assertEquals(classes, [
+      'CreateUserCommand',
+      'CreateUserCommandHandler',
+      'DeleteUserCommand',
+      'DeleteUserCommandHandler',
+      'GetUserQuery',
+      'GetUserQueryHandler',
+      'UserValidatorService',
+    ]);
+    assertEquals(patched, [
+      `apps/${appName}/src/application/commands/index.ts`,
+      `apps/${appName}/src/application/queries/index.ts`,
+      `apps/${appName}/src/domain/services/index.ts`,
+      `apps/${appName}/src/${appName}.module.ts`,
+    ]);
+
+    const commandIndex = await Deno.readTextFile(
+      `apps/${appName}/src/application/commands/index.ts`,
+    );
+    assert(commandIndex.includes('CreateUserCommandHandler'));
+    assert(commandIndex.includes('DeleteUserCommandHandler'));
+
+    const command = await Deno.readTextFile(
+      `apps/${appName}/src/application/commands/create-user/create-user.command.ts`,
+    );
+    assert(command.includes('public readonly email: string,'));
+  } finally {
+    await cleanupTestDir(appName);
+  }
+});
+
+Deno.test('GeneratorService - generateMany writes nothing when a component exists', async () => {
+  const appName = 'test-service';
+  const generator = new GeneratorService();
+
+  await cleanupTestDir(appName);
+  await setupTestDir();
+
+  try {
+    await generator.generate(appName, 'query', 'GetUser');
+
+    await assertRejects(
+      () =>
+        generator.generateMany(appName, [
+          { type: 'command', name: 'CreateUser' },
+          { type: 'query', name: 'GetUser' },
+        ]),
+      ComponentExistsError,
+      'GetUserQuery already exists',
+    );
+    assert(!(await exists(`apps/${appName}/src/application/commands/create-user`)));
+  } finally {
+    await cleanupTestDir(appName);
+  }
+});
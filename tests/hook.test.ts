@@ -0,0 +1,173 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { ConfigService } from '../src/config.service.ts';
+import { CquverError } from '../src/errors.ts';
+import { FileWriterService } from '../src/file-writer.service.ts';
+import { HookService } from '../src/hook.service.ts';
+import { Logger } from '../src/logger.ts';
+
+const TEST_DIR = 'test-temp/hooks';
+const CONFIG_PATH = `${TEST_DIR}/cquver.json`;
+const LOG = `${TEST_DIR}/hooks.log`;
+const CONTEXT = { app: 'app', command: 'app create service Billing' };
+
+// Test utilities
+async function cleanup() {
+  try {
+    await Deno.remove(TEST_DIR, { recursive: true });
+  } catch {
+    // Directory doesn't exist, ignore
+  }
+}
+
+/**
+ * Writes cquver.json with the given hooks and a file writer that touched two files
+ */
+async function setup(hooks: unknown, dryRun = false) {
+  await Deno.mkdir(TEST_DIR, { recursive: true });
+  await Deno.writeTextFile(CONFIG_PATH, JSON.stringify({ hooks }));
+  await Deno.writeTextFile(`${TEST_DIR}/index.ts`, 'export {};\n');
+
+  const fileWriter = new FileWriterService(dryRun);
+  await fileWriter.writeFile(`${TEST_DIR}/billing.service.ts`, 'const a = "billing"\n');
+  await fileWriter.patchFile(`${TEST_DIR}/index.ts`, 'export {};\n');
+  await fileWriter.patchFile(`${TEST_DIR}/module.ts`, 'export {};\n');
+  const hookService = new HookService(
+    new ConfigService(CONFIG_PATH),
+    fileWriter,
+    new Logger('silent'),
+  );
+  return { fileWriter, hookService };
+}
+
+async function readLog(): Promise<string[]> {
+  return (await Deno.readTextFile(LOG)).trim().split('\n');
+}
+
+Deno.test('HookService - runs postGenerate commands in order on the changed files', async () => {
+  await cleanup();
+
+  try {
+    const { hookService } = await setup({
+      postGenerate: [
+        `echo first {files} >> ${LOG}`,
+        `echo "second $CQUVER_APP $CQUVER_HOOK" >> ${LOG}`,
+        `printf '%s|' $CQUVER_FILES >> ${LOG}`,
+      ],
+    });
+
+    await hookService.postGenerate(CONTEXT);
+
+    // The unchanged index is not passed on
+    assertEquals(await readLog(), [
+      `first ${TEST_DIR}/billing.service.ts ${TEST_DIR}/module.ts`,
+      'second app postGenerate',
+      `${TEST_DIR}/billing.service.ts|${TEST_DIR}/module.ts|`,
+    ]);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test('HookService - the built-in formatter rewrites the touched files only', async () => {
+  await cleanup();
+
+  try {
+    const { fileWriter, hookService } = await setup({ formatter: 'deno' });
+    await Deno.writeTextFile(`${TEST_DIR}/untouched.ts`, 'const b = "untouched"\n');
+
+    await hookService.postGenerate(CONTEXT);
+
+    const formatted = "const a = 'billing';\n";
+    assertEquals(await Deno.readTextFile(`${TEST_DIR}/billing.service.ts`), formatted);
+    assertEquals(fileWriter.changes[0].content, formatted);
+    assertEquals(
+      await Deno.readTextFile(`${TEST_DIR}/untouched.ts`),
+      'const b = "untouched"\n',
+    );
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test('HookService - a failing postGenerate command stops the rest', async () => {
+  await cleanup();
+
+  try {
+    const { hookService } = await setup({
+      postGenerate: [
+        `echo first >> ${LOG}`,
+        'echo "lint error" >&2; exit 3',
+        `echo third >> ${LOG}`,
+      ],
+    });
+
+    await assertRejects(
+      () => hookService.postGenerate(CONTEXT),
+      CquverError,
+      'postGenerate hook "echo "lint error" >&2; exit 3" failed with exit code 3, ' +
+        'the generated files were kept:\n  lint error',
+    );
+    assertEquals(await readLog(), ['first']);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test('HookService - a failing preGenerate command vetoes the generation', async () => {
+  await cleanup();
+
+  try {
+    const { hookService } = await setup({
+      preGenerate: [`echo "$CQUVER_COMMAND" >> ${LOG}`, 'test "$CQUVER_APP" != app'],
+    });
+
+    const error = await assertRejects(
+      () => hookService.preGenerate(CONTEXT),
+      CquverError,
+      'preGenerate hook "test "$CQUVER_APP" != app" failed with exit code 1, nothing was written',
+    );
+    assertEquals(error.code, 'HOOK_FAILED');
+    assertEquals(await readLog(), ['app create service Billing']);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test('HookService - dry runs skip all hooks', async () => {
+  await cleanup();
+
+  try {
+    const { hookService } = await setup(
+      { preGenerate: ['exit 1'], formatter: 'deno', postGenerate: ['exit 1'] },
+      true,
+    );
+
+    await hookService.preGenerate(CONTEXT);
+    await hookService.postGenerate(CONTEXT);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test('ConfigService - rejects invalid hooks', async () => {
+  await cleanup();
+
+  try {
+    await Deno.mkdir(TEST_DIR, { recursive: true });
+    await Deno.writeTextFile(CONFIG_PATH, JSON.stringify({ hooks: { formatter: 'biome' } }));
+    await assertRejects(
+      () => new ConfigService(CONFIG_PATH).getAppConfig('app'),
+      CquverError,
+      'Invalid hooks.formatter "biome" in test-temp/hooks/cquver.json',
+    );
+
+    await Deno.writeTextFile(CONFIG_PATH, JSON.stringify({ hooks: { postGenerate: 'lint' } }));
+    await assertRejects(
+      () => new ConfigService(CONFIG_PATH).getAppConfig('app'),
+      CquverError,
+      'Invalid hooks.postGenerate in test-temp/hooks/cquver.json, use a list of shell commands',
+    );
+  } finally {
+    await cleanup();
+  }
+});
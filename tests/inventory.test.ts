@@ -0,0 +1,60 @@
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { AppInventory, formatInventory } from '../src/inventory.service.ts';
+
+const inventory: AppInventory = {
+  app: 'user-service',
+  components: [
+    {
+      type: 'command',
+      name: 'CreateUserCommand',
+      handler: 'CreateUserCommandHandler',
+      path: 'apps/user-service/src/application/commands/create-user',
+    },
+    {
+      type: 'usecase',
+      name: 'RegisterUserUseCase',
+      path: 'apps/user-service/src/application/usecases/register-user',
+    },
+  ],
+};
+
+Deno.test('formatInventory - renders an aligned table', () => {
+  assertEquals(
+    formatInventory([inventory], 'table'),
+    `📦 user-service (2 components)
+  TYPE     NAME                 HANDLER                   PATH
+  command  CreateUserCommand    CreateUserCommandHandler  apps/user-service/src/application/commands/create-user
+  usecase  RegisterUserUseCase  -                         apps/user-service/src/application/usecases/register-user`,
+  );
+});
+
+Deno.test('formatInventory - renders Markdown sections per type', () => {
+  assertEquals(
+    formatInventory([inventory], 'markdown'),
+    `## user-service
+
+### Commands
+
+| Name | Handler | Path |
+| --- | --- | --- |
+| CreateUserCommand | CreateUserCommandHandler | \`apps/user-service/src/application/commands/create-user\` |
+
+### Use Cases
+
+| Name | Handler | Path |
+| --- | --- | --- |
+| RegisterUserUseCase | - | \`apps/user-service/src/application/usecases/register-user\` |`,
+  );
+});
+
+Deno.test('formatInventory - renders a single app as a JSON object', () => {
+  assertEquals(JSON.parse(formatInventory([inventory], 'json')), inventory);
+  assertEquals(JSON.parse(formatInventory([inventory, inventory], 'json')).length, 2);
+});
+
+Deno.test('formatInventory - marks libraries', () => {
+  const library: AppInventory = { app: 'shared', library: true, components: [] };
+
+  assertEquals(formatInventory([library], 'table'), '📚 shared (library, 0 components)');
+  assertEquals(formatInventory([library], 'markdown'), '## shared (library)');
+});
@@ -0,0 +1,127 @@
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { exists } from 'https://deno.land/std@0.208.0/fs/exists.ts';
+import { CquverError } from '../src/errors.ts';
+import { FileWriterService } from '../src/file-writer.service.ts';
+import { JournalService } from '../src/journal.service.ts';
+import { Logger } from '../src/logger.ts';
+
+const TEST_DIR = 'test-temp/journal';
+const JOURNAL = `${TEST_DIR}/.cquver/journal.json`;
+
+// Test utilities
+async function cleanup() {
+  try {
+    await Deno.remove(TEST_DIR, { recursive: true });
+  } catch {
+    // Directory doesn't exist, ignore
+  }
+}
+
+/**
+ * Writes a component folder and patches a shared index, like create does
+ */
+async function recordOperation(): Promise<void> {
+  const fileWriter = new FileWriterService();
+  await fileWriter.ensureDir(`${TEST_DIR}/commands/create-user`);
+  await fileWriter.writeFile(`${TEST_DIR}/commands/create-user/index.ts`, 'export {};\n');
+  await fileWriter.patchFile(`${TEST_DIR}/index.ts`, 'export * from "./commands";\n');
+  await new JournalService(fileWriter, new Logger('silent'), JOURNAL)
+    .record('app create command CreateUser', 'app');
+}
+
+Deno.test('JournalService - undo restores patched files and removes created ones', async () => {
+  await cleanup();
+
+  try {
+    await Deno.mkdir(TEST_DIR, { recursive: true });
+    await Deno.writeTextFile(`${TEST_DIR}/index.ts`, '');
+    await recordOperation();
+
+    const fileWriter = new FileWriterService();
+    const journal = new JournalService(fileWriter, new Logger('silent'), JOURNAL);
+    const entry = await journal.undo();
+
+    assertEquals(entry.command, 'app create command CreateUser');
+    assertEquals(await Deno.readTextFile(`${TEST_DIR}/index.ts`), '');
+    assert(!(await exists(`${TEST_DIR}/commands`)));
+    assertEquals(fileWriter.removedPaths, [
+      `${TEST_DIR}/commands/create-user/index.ts`,
+      `${TEST_DIR}/commands/create-user`,
+      `${TEST_DIR}/commands`,
+    ]);
+    assertEquals(await journal.list(), []);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test('JournalService - undo refuses edited files and keeps foreign ones', async () => {
+  await cleanup();
+
+  try {
+    await Deno.mkdir(TEST_DIR, { recursive: true });
+    await Deno.writeTextFile(`${TEST_DIR}/index.ts`, '');
+    await recordOperation();
+    await Deno.writeTextFile(`${TEST_DIR}/commands/create-user/index.ts`, '// edited\n');
+
+    const journal = new JournalService(new FileWriterService(), new Logger('silent'), JOURNAL);
+    await assertRejects(() => journal.undo(), CquverError, 'these files were edited since');
+    assertEquals((await journal.list()).length, 1);
+
+    // A file cquver did not create keeps its folder
+    await Deno.writeTextFile(`${TEST_DIR}/commands/create-user/index.ts`, 'export {};\n');
+    await Deno.writeTextFile(`${TEST_DIR}/commands/notes.md`, '');
+    const logger = new Logger('silent');
+    await new JournalService(new FileWriterService(), logger, JOURNAL).undo();
+
+    assert(!(await exists(`${TEST_DIR}/commands/create-user`)));
+    assert(await exists(`${TEST_DIR}/commands/notes.md`));
+    assertEquals(logger.warnings, [
+      `Kept ${TEST_DIR}/commands, it contains files cquver did not create`,
+    ]);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test('JournalService - dry runs record nothing and undo nothing', async () => {
+  await cleanup();
+
+  try {
+    await Deno.mkdir(TEST_DIR, { recursive: true });
+    await Deno.writeTextFile(`${TEST_DIR}/index.ts`, '');
+    await recordOperation();
+
+    const dryRun = new FileWriterService(true);
+    await new JournalService(dryRun, new Logger('silent'), JOURNAL).undo();
+    assert(await exists(`${TEST_DIR}/commands/create-user/index.ts`));
+    assert(dryRun.formatPlan().includes(`- delete    ${TEST_DIR}/commands/create-user`));
+
+    await dryRun.writeFile(`${TEST_DIR}/other.ts`, '');
+    await new JournalService(dryRun, new Logger('silent'), JOURNAL).record('app init', 'app');
+    assertEquals((await new JournalService(dryRun, new Logger(), JOURNAL).list()).length, 1);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test('JournalService - rejects a journal without operations', async () => {
+  await cleanup();
+
+  try {
+    await Deno.mkdir(`${TEST_DIR}/.cquver`, { recursive: true });
+    const journal = new JournalService(new FileWriterService(), new Logger('silent'), JOURNAL);
+
+    for (const content of ['{ "operations": ', '{}', '{ "operations": {} }', 'null']) {
+      await Deno.writeTextFile(JOURNAL, content);
+      const error = await assertRejects(
+        () => journal.undo(),
+        CquverError,
+        `${JOURNAL} cannot be read, delete it to start a new journal`,
+      );
+      assertEquals(error.code, 'UNDO_CONFLICT');
+    }
+  } finally {
+    await cleanup();
+  }
+});
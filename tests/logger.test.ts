@@ -0,0 +1,78 @@
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { Logger, LogLevel } from '../src/logger.ts';
+
+// Collects everything a logger prints, per console stream
+function capture(level: LogLevel, color = false) {
+  const lines: { log: string[]; warn: string[]; error: string[] } = {
+    log: [],
+    warn: [],
+    error: [],
+  };
+  const logger = new Logger(level, { color });
+  const original = { log: console.log, warn: console.warn, error: console.error };
+
+  const print = (run: (logger: Logger) => void) => {
+    console.log = (message: string) => lines.log.push(message);
+    console.warn = (message: string) => lines.warn.push(message);
+    console.error = (message: string) => lines.error.push(message);
+    try {
+      run(logger);
+    } finally {
+      Object.assign(console, original);
+    }
+  };
+
+  return { logger, lines, print };
+}
+
+function logEverything(logger: Logger) {
+  logger.info('info');
+  logger.success('success');
+  logger.verbose('verbose');
+  logger.debug('debug');
+  logger.warn('warn');
+  logger.error('error');
+}
+
+Deno.test('Logger - each level includes the levels before it', () => {
+  const expected: Record<LogLevel, { log: string[]; warn: string[]; error: string[] }> = {
+    silent: { log: [], warn: [], error: [] },
+    quiet: { log: [], warn: ['⚠️ warn'], error: ['❌ error'] },
+    normal: { log: ['info', 'success'], warn: ['⚠️ warn'], error: ['❌ error'] },
+    verbose: { log: ['info', 'success', '💬 verbose'], warn: ['⚠️ warn'], error: ['❌ error'] },
+    debug: {
+      log: ['info', 'success', '💬 verbose', '🐛 debug'],
+      warn: ['⚠️ warn'],
+      error: ['❌ error'],
+    },
+  };
+
+  for (const level of Object.keys(expected) as LogLevel[]) {
+    const { lines, print } = capture(level);
+    print(logEverything);
+    assertEquals(lines, expected[level], level);
+  }
+});
+
+Deno.test('Logger - records warnings even when silent', () => {
+  const { logger, lines, print } = capture('silent');
+  print((logger) => logger.warn('something looks off'));
+
+  assertEquals(logger.warnings, ['something looks off']);
+  assertEquals(lines.warn, []);
+});
+
+Deno.test('Logger - colors only when enabled', () => {
+  const colored = capture('normal', true);
+  colored.print((logger) => {
+    logger.info('plain');
+    logger.success('done');
+    logger.warn('careful');
+  });
+  assertEquals(colored.lines.log, ['plain', '\x1b[32mdone\x1b[0m']);
+  assertEquals(colored.lines.warn, ['\x1b[33m⚠️ careful\x1b[0m']);
+
+  const plain = capture('normal', false);
+  plain.print((logger) => logger.success('done'));
+  assertEquals(plain.lines.log, ['done']);
+});
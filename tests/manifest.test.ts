@@ -0,0 +1,82 @@
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { CquverError } from '../src/errors.ts';
+import { loadManifest, parseManifest } from '../src/manifest.ts';
+
+Deno.test('parseManifest - reads YAML sections, names and properties', () => {
+  const manifest = `
+# Users bounded context
+commands:
+  - CreateUser
+  - name: UpdateUser
+    properties:
+      id: string
+      email?: string
+queries: [GetUser]
+events:
+services:
+  - UserValidator
+`;
+
+  assertEquals(parseManifest(manifest, 'domain.yaml'), [
+    { type: 'command', name: 'CreateUser', properties: [] },
+    {
+      type: 'command',
+      name: 'UpdateUser',
+      properties: [{ name: 'id', type: 'string' }, { name: 'email?', type: 'string' }],
+    },
+    { type: 'query', name: 'GetUser', properties: [] },
+    { type: 'service', name: 'UserValidator', properties: [] },
+  ]);
+});
+
+Deno.test('parseManifest - reads JSON manifests', () => {
+  const manifest = JSON.stringify({
+    events: [{ name: 'UserCreated', properties: { userId: 'string' } }],
+    usecases: ['RegisterUser'],
+  });
+
+  assertEquals(parseManifest(manifest, 'domain.json'), [
+    { type: 'event', name: 'UserCreated', properties: [{ name: 'userId', type: 'string' }] },
+    { type: 'usecase', name: 'RegisterUser', properties: [] },
+  ]);
+});
+
+Deno.test('parseManifest - rejects invalid manifests', () => {
+  assertThrows(
+    () => parseManifest('repositories:\n  - UserRepository\n', 'domain.yaml'),
+    CquverError,
+    'unknown section "repositories"',
+  );
+  assertThrows(
+    () => parseManifest('{"commands": "CreateUser"}', 'domain.json'),
+    CquverError,
+    '"commands" must be a list',
+  );
+  assertThrows(
+    () => parseManifest('{"services": [{"name": "A", "properties": {"b": "string"}}]}', 'd.json'),
+    CquverError,
+    'A: only commands, queries and events take properties',
+  );
+  assertThrows(
+    () => parseManifest('{"commands": [{"name": "A", "properties": {"1b": "x"}}]}', 'd.json'),
+    CquverError,
+    'invalid property "1b" of A',
+  );
+  assertThrows(
+    () => parseManifest('{', 'domain.json'),
+    CquverError,
+    'Invalid manifest domain.json',
+  );
+});
+
+Deno.test('loadManifest - reports missing files', async () => {
+  await assertRejects(
+    () => loadManifest('test-temp/missing.yaml'),
+    CquverError,
+    'Manifest test-temp/missing.yaml does not exist',
+  );
+});
@@ -1,5 +1,7 @@
-import { assert } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
 import { exists } from 'https://deno.land/std@0.208.0/fs/exists.ts';
+import { ConfigService } from '../src/config.service.ts';
+import { FileWriterService } from '../src/file-writer.service.ts';
 import { ModuleManagerService } from '../src/module-manager.service.ts';
 
 // Test utilities
@@ -199,3 +201,87 @@ Deno.test('ModuleManagerService - handles multiple handlers in same type', async
     await cleanupTestDir('apps');
   }
 });
+
+Deno.test('ModuleManagerService - syncApp rebuilds all indexes and the module', async () => {
+  const moduleManager = new ModuleManagerService();
+  const sourcePath = 'apps/test-app/src';
+
+  await cleanupTestDir('apps');
+  await createTestDir(`${sourcePath}/application/events/user-created`);
+  await createTestDir(`${sourcePath}/domain/services/user-validator`);
+
+  try {
+    await Deno.writeTextFile(
+      `${sourcePath}/application/events/user-created/user-created.event.ts`,
+      'export class UserCreatedEvent {}',
+    );
+    await Deno.writeTextFile(
+      `${sourcePath}/application/events/user-created/user-created.handler.ts`,
+      'export class UserCreatedEventHandler {}',
+    );
+    await Deno.writeTextFile(
+      `${sourcePath}/domain/services/user-validator/user-validator.service.ts`,
+      'export class UserValidatorService {}',
+    );
+    await Deno.writeTextFile(`${sourcePath}/application/index.ts`, '');
+
+    await moduleManager.syncApp('test-app');
+
+    const eventsIndex = await Deno.readTextFile(`${sourcePath}/application/events/index.ts`);
+    assert(eventsIndex.includes('UserCreatedEventHandler,'));
+    const servicesIndex = await Deno.readTextFile(`${sourcePath}/domain/services/index.ts`);
+    assert(servicesIndex.includes('UserValidatorService,'));
+    const commandsIndex = await Deno.readTextFile(`${sourcePath}/application/commands/index.ts`);
+    assert(commandsIndex.includes('export const CommandHandlers = [\n];'));
+    const applicationIndex = await Deno.readTextFile(`${sourcePath}/application/index.ts`);
+    assert(applicationIndex.includes('export { UserCreatedEvent };'));
+    assert(await exists(`${sourcePath}/test-app.module.ts`));
+
+    // A second sync has nothing to change and writes nothing
+    const fileWriter = new FileWriterService();
+    await new ModuleManagerService(new ConfigService(), fileWriter).syncApp('test-app');
+    assertEquals(fileWriter.changes, []);
+  } finally {
+    await cleanupTestDir('apps');
+  }
+});
+
+Deno.test('ModuleManagerService - repoints the module import of a moved type folder', async () => {
+  const sourcePath = 'apps/test-service/src';
+
+  await cleanupTestDir('apps');
+  await cleanupTestDir('test-temp');
+  await createTestDir(sourcePath);
+  await createTestDir('test-temp');
+
+  try {
+    await Deno.writeTextFile(
+      'test-temp/cquver.json',
+      JSON.stringify({ apps: { 'test-service': { types: { command: { folder: 'cmds' } } } } }),
+    );
+    await Deno.writeTextFile(
+      `${sourcePath}/test-service.module.ts`,
+      `import { Module } from '@nestjs/common';
+import { CommandHandlers } from "./application/commands";
+
+@Module({
+  providers: [
+    ...CommandHandlers,
+  ],
+})
+export class TestServiceModule {}
+`,
+    );
+    const moduleManager = new ModuleManagerService(new ConfigService('test-temp/cquver.json'));
+
+    await moduleManager.updateServiceModule('test-service');
+
+    const updatedContent = await Deno.readTextFile(`${sourcePath}/test-service.module.ts`);
+    assertEquals(updatedContent.match(/import \{ CommandHandlers \}/g)?.length, 1);
+    assert(updatedContent.includes('import { CommandHandlers } from "./application/cmds";'));
+    assertEquals(updatedContent.match(/\.\.\.CommandHandlers/g)?.length, 1);
+  } finally {
+    await cleanupTestDir('apps');
+    await cleanupTestDir('test-temp');
+  }
+});
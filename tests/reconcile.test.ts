@@ -0,0 +1,119 @@
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { exists } from 'https://deno.land/std@0.208.0/fs/exists.ts';
+import { CquverError } from '../src/errors.ts';
+import { FileWriterService } from '../src/file-writer.service.ts';
+import { GeneratorService } from '../src/generator.service.ts';
+import { ModuleManagerService } from '../src/module-manager.service.ts';
+import { formatReconcilePlan, ReconcileService } from '../src/reconcile.service.ts';
+
+const APP_NAME = 'test-service';
+const APP_PATH = `apps/${APP_NAME}`;
+const COMMANDS_PATH = `${APP_PATH}/src/application/commands`;
+
+// Test utilities
+async function cleanupTestApps() {
+  try {
+    await Deno.remove('apps', { recursive: true });
+  } catch {
+    // Directory doesn't exist, ignore
+  }
+}
+
+async function createDriftedApp() {
+  const generator = new GeneratorService();
+  await generator.generate(APP_NAME, 'command', 'CreateUser');
+  await generator.generate(APP_NAME, 'command', 'LegacyImport');
+  await generator.generate(APP_NAME, 'query', 'GetUser');
+  await new ModuleManagerService().syncApp(APP_NAME);
+  // A stale index entry the domain file has nothing to do with
+  await Deno.writeTextFile(`${COMMANDS_PATH}/index.ts`, '');
+
+  await Deno.writeTextFile(
+    `${APP_PATH}/cquver.domain.yaml`,
+    'commands:\n  - CreateUser\n  - name: DeleteUser\n    properties:\n      id: string\n' +
+      'queries: [GetUser]\n',
+  );
+}
+
+Deno.test('ReconcileService - plans missing, undeclared and drifted components', async () => {
+  await cleanupTestApps();
+
+  try {
+    await createDriftedApp();
+
+    const plan = await new ReconcileService().plan(APP_NAME);
+
+    assertEquals(plan.missing, [
+      { type: 'command', name: 'DeleteUser', properties: [{ name: 'id', type: 'string' }] },
+    ]);
+    assertEquals(plan.undeclared, [
+      { type: 'command', name: 'legacy-import', path: `${COMMANDS_PATH}/legacy-import` },
+    ]);
+    assert(plan.drift.length > 0);
+    assert(plan.drift.every((issue) => issue.file === `${COMMANDS_PATH}/index.ts`));
+
+    const formatted = formatReconcilePlan(APP_NAME, plan);
+    assert(formatted.includes('  + command   DeleteUser'));
+    assert(formatted.includes('  - command   legacy-import (not declared, kept without --prune)'));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('ReconcileService - apply creates and repairs, prune deletes', async () => {
+  await cleanupTestApps();
+
+  try {
+    await createDriftedApp();
+    const reconcile = new ReconcileService();
+
+    await reconcile.apply(APP_NAME);
+    assert(await exists(`${COMMANDS_PATH}/delete-user/delete-user.command.ts`));
+    assert(await exists(`${COMMANDS_PATH}/legacy-import`));
+
+    const kept = await reconcile.plan(APP_NAME);
+    assertEquals(kept.missing, []);
+    assertEquals(kept.drift, []);
+    assertEquals(kept.undeclared.length, 1);
+
+    await reconcile.apply(APP_NAME, { prune: true });
+    assert(!(await exists(`${COMMANDS_PATH}/legacy-import`)));
+    assertEquals(await reconcile.plan(APP_NAME), { missing: [], undeclared: [], drift: [] });
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('ReconcileService - dry-run apply leaves the app untouched', async () => {
+  await cleanupTestApps();
+
+  try {
+    await createDriftedApp();
+    const fileWriter = new FileWriterService(true);
+
+    await new ReconcileService(undefined, fileWriter).apply(APP_NAME, { prune: true });
+
+    assert(fileWriter.changes.some((change) => change.path.endsWith('delete-user.command.ts')));
+    assertEquals(fileWriter.removedPaths, [`${COMMANDS_PATH}/legacy-import`]);
+    assert(!(await exists(`${COMMANDS_PATH}/delete-user`)));
+    assert(await exists(`${COMMANDS_PATH}/legacy-import`));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('ReconcileService - requires a domain file', async () => {
+  await cleanupTestApps();
+
+  try {
+    await new GeneratorService().generate(APP_NAME, 'command', 'CreateUser');
+
+    await assertRejects(
+      () => new ReconcileService().plan(APP_NAME),
+      CquverError,
+      `App "${APP_NAME}" has no cquver.domain.yaml`,
+    );
+  } finally {
+    await cleanupTestApps();
+  }
+});
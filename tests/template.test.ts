@@ -0,0 +1,133 @@
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { exists } from 'https://deno.land/std@0.208.0/fs/exists.ts';
+import { CquverError } from '../src/errors.ts';
+import { GeneratorService } from '../src/generator.service.ts';
+import { renderTemplate, TemplateContext, TEMPLATES_DIR } from '../src/template.service.ts';
+
+const APP_NAME = 'test-service';
+const COMMAND_PATH = `apps/${APP_NAME}/src/application/commands/create-user`;
+
+const CONTEXT: TemplateContext = {
+  className: 'CreateUserCommand',
+  handlerName: 'CreateUserCommandHandler',
+  fileName: 'create-user',
+  appName: APP_NAME,
+  fileSuffix: 'command',
+  handlerFileSuffix: 'handler',
+  props: [{ name: 'email', type: 'string' }, { name: 'age?', type: 'number' }],
+};
+
+// Test utilities
+async function cleanupTestApps() {
+  for (const path of ['apps', '.cquver']) {
+    try {
+      await Deno.remove(path, { recursive: true });
+    } catch {
+      // Directory doesn't exist, ignore
+    }
+  }
+}
+
+async function writeTemplate(path: string, content: string) {
+  await Deno.mkdir(`${TEMPLATES_DIR}/${path.split('/')[0]}`, { recursive: true });
+  await Deno.writeTextFile(`${TEMPLATES_DIR}/${path}`, content);
+}
+
+Deno.test('renderTemplate - replaces placeholders and repeats props blocks', () => {
+  assertEquals(
+    renderTemplate(
+      '// {{appName}}: {{ fileName }}.{{fileSuffix}}.ts\nexport class {{className}} {\n' +
+        '  constructor(\n{{props}}\n  ) {}\n}\n',
+      CONTEXT,
+      'command.tpl',
+    ),
+    '// test-service: create-user.command.ts\nexport class CreateUserCommand {\n' +
+      '  constructor(\n    public readonly email: string,\n    public readonly age?: number,\n' +
+      '  ) {}\n}\n',
+  );
+  assertEquals(
+    renderTemplate(
+      'type Fields = {\n{{#props}}\n  {{name}}: {{type}}; // of {{className}}\n{{/props}}\n};\n',
+      CONTEXT,
+      'command.tpl',
+    ),
+    'type Fields = {\n  email: string; // of CreateUserCommand\n' +
+      '  age?: number; // of CreateUserCommand\n};\n',
+  );
+});
+
+Deno.test('renderTemplate - rejects unknown placeholders', () => {
+  assertThrows(
+    () => renderTemplate('{{className}} {{userName}}', CONTEXT, '.cquver/templates/x.tpl'),
+    CquverError,
+    'Unknown placeholder {{userName}} in .cquver/templates/x.tpl',
+  );
+
+  // Inherited object properties are no placeholders either
+  for (const name of ['constructor', 'toString']) {
+    assertThrows(
+      () => renderTemplate(`{{${name}}}`, CONTEXT, 'x.tpl'),
+      CquverError,
+      `Unknown placeholder {{${name}}} in x.tpl`,
+    );
+  }
+  assertThrows(
+    () => renderTemplate('{{#props}}{{constructor}}{{/props}}', CONTEXT, 'x.tpl'),
+    CquverError,
+    'Unknown placeholder {{constructor}} in x.tpl',
+  );
+});
+
+Deno.test('GeneratorService - renders project templates and falls back to built-in ones', async () => {
+  await cleanupTestApps();
+
+  try {
+    await writeTemplate(
+      'command/handler.tpl',
+      "import { Logger } from '@nestjs/common';\n" +
+        "import { {{className}} } from './{{fileName}}.{{fileSuffix}}';\n\n" +
+        'export class {{handlerName}} {\n' +
+        '  private readonly logger = new Logger({{handlerName}}.name);\n}\n',
+    );
+
+    await new GeneratorService().generate(APP_NAME, 'command', 'CreateUser');
+
+    const handler = await Deno.readTextFile(`${COMMAND_PATH}/create-user.handler.ts`);
+    assertEquals(
+      handler,
+      "import { Logger } from '@nestjs/common';\n" +
+        "import { CreateUserCommand } from './create-user.command';\n\n" +
+        'export class CreateUserCommandHandler {\n' +
+        '  private readonly logger = new Logger(CreateUserCommandHandler.name);\n}\n',
+    );
+    // No override for the command class and index
+    const command = await Deno.readTextFile(`${COMMAND_PATH}/create-user.command.ts`);
+    assert(command.includes('export class CreateUserCommand implements ICommand'));
+    const index = await Deno.readTextFile(`${COMMAND_PATH}/index.ts`);
+    assert(index.includes("export { CreateUserCommandHandler } from './create-user.handler';"));
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('GeneratorService - writes nothing when a project template is invalid', async () => {
+  await cleanupTestApps();
+
+  try {
+    await writeTemplate('service/service.tpl', 'export class {{serviceName}} {}\n');
+
+    await assertRejects(
+      () => new GeneratorService().generate(APP_NAME, 'service', 'UserValidator'),
+      CquverError,
+      'Unknown placeholder {{serviceName}}',
+    );
+    assert(!(await exists('apps')));
+  } finally {
+    await cleanupTestApps();
+  }
+});
@@ -1,4 +1,8 @@
-import { assert, assertStringIncludes } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+} from 'https://deno.land/std@0.208.0/assert/mod.ts';
 import {
   eventHandlerTemplate,
   eventIndexTemplate,
@@ -58,6 +62,19 @@ Deno.test('commandTemplate - generates correct command class', () => {
   assertStringIncludes(result, '// Add your command properties here');
 });
 
+Deno.test('commandTemplate - renders constructor properties', () => {
+  const result = commandTemplate('CreateUserCommand', [
+    { name: 'email', type: 'string' },
+    { name: 'age?', type: 'number' },
+  ]);
+
+  assertStringIncludes(
+    result,
+    '  constructor(\n    public readonly email: string,\n    public readonly age?: number,\n  ) {}',
+  );
+  assert(!result.includes('// Add your command properties here'));
+});
+
 Deno.test('commandHandlerTemplate - generates correct command handler', () => {
   const result = commandHandlerTemplate(
     'CreateUserCommand',
@@ -136,3 +153,91 @@ Deno.test('queryHandlerTemplate - generates correct query handler', () => {
   );
   assertStringIncludes(result, 'async execute(query: GetOrderQuery): Promise<any>');
 });
+
+Deno.test('minimal preset - drops comments, logs and empty constructors', () => {
+  assertEquals(
+    commandTemplate('CreateUserCommand', [], 'minimal'),
+    "import { ICommand } from '@nestjs/cqrs';\n\n" +
+      'export class CreateUserCommand implements ICommand {}\n',
+  );
+  assertStringIncludes(
+    eventTemplate('UserCreatedEvent', [{ name: 'userId', type: 'string' }], 'minimal'),
+    '  constructor(\n    public readonly userId: string,\n  ) {}',
+  );
+
+  const handlers = [
+    commandHandlerTemplate(
+      'CreateUserCommand',
+      'CreateUserCommandHandler',
+      'create-user',
+      'command',
+      'minimal',
+    ),
+    queryHandlerTemplate('GetUserQuery', 'GetUserQueryHandler', 'get-user', 'query', 'minimal'),
+    eventHandlerTemplate(
+      'UserCreatedEvent',
+      'UserCreatedEventHandler',
+      'user-created',
+      'event',
+      'minimal',
+    ),
+    serviceTemplate('UserValidatorService', 'minimal'),
+    usecaseTemplate('RegisterUserUseCase', 'minimal'),
+  ];
+  for (const handler of handlers) {
+    assert(!handler.includes('//'), handler);
+    assert(!handler.includes('console.log'), handler);
+  }
+});
+
+Deno.test('strict preset - uses Logger and typed results without any', () => {
+  const commandHandler = commandHandlerTemplate(
+    'CreateUserCommand',
+    'CreateUserCommandHandler',
+    'create-user',
+    'command',
+    'strict',
+  );
+  assertStringIncludes(commandHandler, "import { Logger } from '@nestjs/common';");
+  assertStringIncludes(
+    commandHandler,
+    'implements ICommandHandler<CreateUserCommand, void>',
+  );
+  assertStringIncludes(
+    commandHandler,
+    'private readonly logger = new Logger(CreateUserCommandHandler.name);',
+  );
+
+  assertStringIncludes(
+    queryTemplate('GetUserQuery', [], 'strict'),
+    'export type GetUserQueryResult = Record<string, unknown>;',
+  );
+  const queryHandler = queryHandlerTemplate(
+    'GetUserQuery',
+    'GetUserQueryHandler',
+    'get-user',
+    'query',
+    'strict',
+  );
+  assertStringIncludes(
+    queryHandler,
+    "import { GetUserQuery, GetUserQueryResult } from './get-user.query';",
+  );
+  assertStringIncludes(
+    queryHandler,
+    'async execute(query: GetUserQuery): Promise<GetUserQueryResult>',
+  );
+
+  const eventHandler = eventHandlerTemplate(
+    'UserCreatedEvent',
+    'UserCreatedEventHandler',
+    'user-created',
+    'event',
+    'strict',
+  );
+  for (const handler of [commandHandler, queryHandler, eventHandler]) {
+    assert(!handler.includes('any'), handler);
+    assert(!handler.includes('console.log'), handler);
+    assertStringIncludes(handler, 'this.logger.debug(');
+  }
+});
@@ -1,6 +1,8 @@
 import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
 import {
+  editDistance,
   ensureSuffix,
+  findClosest,
   formatVersion,
   generateHandlerName,
   isValidConventionalCommit,
@@ -137,3 +139,18 @@ Deno.test('parseVersion - parses semantic version strings correctly', () => {
   assertEquals(parseVersion('1.0.0.0'), null);
   assertEquals(parseVersion(''), null);
 });
+
+Deno.test('editDistance - counts single-character edits and swaps', () => {
+  assertEquals(editDistance('create', 'create'), 0);
+  assertEquals(editDistance('craete', 'create'), 1);
+  assertEquals(editDistance('comand', 'command'), 1);
+  assertEquals(editDistance('lsit', 'init'), 2);
+  assertEquals(editDistance('', 'sync'), 4);
+});
+
+Deno.test('findClosest - suggests close candidates only', () => {
+  assertEquals(findClosest('comand', ['command', 'query', 'event']), 'command');
+  assertEquals(findClosest('Qurey', ['command', 'query', 'event']), 'query');
+  assertEquals(findClosest('repository', ['command', 'query', 'event']), null);
+  assertEquals(findClosest('x', ['e', 'q']), null);
+});
@@ -0,0 +1,83 @@
+import { assert } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { GeneratorService } from '../src/generator.service.ts';
+import { WatchService } from '../src/watch.service.ts';
+
+const APP_NAME = 'test-service';
+const SOURCE_PATH = `apps/${APP_NAME}/src`;
+
+// Test utilities
+async function cleanupTestApps() {
+  try {
+    await Deno.remove('apps', { recursive: true });
+  } catch {
+    // Directory doesn't exist, ignore
+  }
+}
+
+async function waitFor(check: () => Promise<boolean>, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await check()) {
+      return true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return false;
+}
+
+async function readOrEmpty(path: string): Promise<string> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch {
+    return '';
+  }
+}
+
+Deno.test('WatchService - syncs indexes when component folders are copied and removed', async () => {
+  await cleanupTestApps();
+  const controller = new AbortController();
+  let watching: Promise<void> | undefined;
+
+  try {
+    await new GeneratorService().generate(APP_NAME, 'command', 'CreateUser');
+    const commandsPath = `${SOURCE_PATH}/application/commands`;
+    const indexPath = `${commandsPath}/index.ts`;
+    await Deno.remove(indexPath);
+
+    watching = new WatchService().watch(APP_NAME, {
+      debounceMs: 50,
+      signal: controller.signal,
+    });
+
+    // The first sync restores the index
+    assert(await waitFor(async () => (await readOrEmpty(indexPath)).includes('CreateUser')));
+
+    // Copy a handler folder by hand
+    await Deno.mkdir(`${commandsPath}/delete-user`);
+    await Deno.writeTextFile(
+      `${commandsPath}/delete-user/delete-user.command.ts`,
+      'export class DeleteUserCommand {}',
+    );
+    await Deno.writeTextFile(
+      `${commandsPath}/delete-user/delete-user.handler.ts`,
+      'export class DeleteUserCommandHandler {}',
+    );
+    assert(
+      await waitFor(async () =>
+        (await readOrEmpty(indexPath)).includes('DeleteUserCommandHandler,')
+      ),
+    );
+
+    // Delete one by hand
+    await Deno.remove(`${commandsPath}/create-user`, { recursive: true });
+    assert(
+      await waitFor(async () =>
+        !(await readOrEmpty(indexPath)).includes('CreateUserCommandHandler')
+      ),
+    );
+  } finally {
+    controller.abort();
+    await watching;
+    await cleanupTestApps();
+  }
+});
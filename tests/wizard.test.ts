@@ -0,0 +1,132 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { DEFAULT_CONFIG } from '../src/config.service.ts';
+import { Choice, InputOptions, Prompt } from '../src/prompt.ts';
+import { formatPreview, WizardService } from '../src/wizard.service.ts';
+
+// Test utilities
+async function cleanupTestApps() {
+  try {
+    await Deno.remove('apps', { recursive: true });
+  } catch {
+    // Directory doesn't exist, ignore
+  }
+}
+
+/**
+ * Answers from a script and records the questions and previews it was shown
+ */
+class ScriptedPrompt implements Prompt {
+  questions: string[] = [];
+  previews: string[] = [];
+
+  constructor(private answers: string[]) {}
+
+  input(question: string, options: InputOptions = {}): Promise<string> {
+    const answer = this.next(question);
+    if (options.preview) {
+      this.previews.push(options.preview(answer));
+    }
+    return Promise.resolve(answer || options.default || '');
+  }
+
+  select<T extends string>(question: string, choices: Choice<T>[], defaultValue?: T): Promise<T> {
+    const answer = this.next(question);
+    const choice = choices.find((choice) => choice.value === answer);
+    return Promise.resolve(choice?.value ?? defaultValue ?? choices[0].value);
+  }
+
+  confirm(question: string, defaultValue = true): Promise<boolean> {
+    const answer = this.next(question);
+    return Promise.resolve(answer === '' ? defaultValue : answer === 'y');
+  }
+
+  private next(question: string): string {
+    this.questions.push(question);
+    return this.answers.shift() ?? '';
+  }
+}
+
+Deno.test('WizardService - asks for the app, type, name and properties', async () => {
+  await cleanupTestApps();
+
+  try {
+    await Deno.mkdir('apps/billing/src', { recursive: true });
+    await Deno.mkdir('apps/user-service/src', { recursive: true });
+    const prompt = new ScriptedPrompt([
+      'user-service',
+      'command',
+      'create-user',
+      'y',
+      'email: string',
+      'age?: number',
+      'not a property',
+      'nickname',
+      '',
+      'y',
+    ]);
+
+    const answers = await new WizardService(prompt).run();
+
+    assertEquals(answers, {
+      app: 'user-service',
+      type: 'command',
+      name: 'create-user',
+      properties: [
+        { name: 'email', type: 'string' },
+        { name: 'age?', type: 'number' },
+        { name: 'nickname', type: 'string' },
+      ],
+    });
+    assertEquals(prompt.questions[0], 'App');
+    assert(prompt.previews[0].includes('CreateUserCommand, CreateUserCommandHandler'));
+    assert(prompt.previews.includes('  Use name: type, e.g. email: string'));
+    assertEquals(
+      prompt.questions[prompt.questions.length - 1],
+      'Create CreateUserCommand in apps/user-service/src/application/commands/create-user?',
+    );
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('WizardService - skips questions that have only one answer', async () => {
+  await cleanupTestApps();
+
+  try {
+    await Deno.mkdir('apps/user-service/src', { recursive: true });
+    const prompt = new ScriptedPrompt(['service', '', 'UserValidator', 'n']);
+
+    const answers = await new WizardService(prompt).run();
+
+    // The only app is picked, services have no properties, an empty name is asked again
+    assertEquals(prompt.questions, [
+      'Component type',
+      'Name',
+      'Name',
+      'Create UserValidatorService in apps/user-service/src/domain/services/user-validator?',
+    ]);
+    assertEquals(answers, null);
+  } finally {
+    await cleanupTestApps();
+  }
+});
+
+Deno.test('formatPreview - shows the classes, files and folder of a name', () => {
+  assertEquals(
+    formatPreview(DEFAULT_CONFIG, 'user-service', 'query', 'get-user'),
+    [
+      '  classes: GetUserQuery, GetUserQueryHandler',
+      '  files:   get-user.query.ts, get-user.handler.ts, index.ts',
+      '  folder:  apps/user-service/src/application/queries/get-user',
+    ].join('\n'),
+  );
+  assertEquals(
+    formatPreview(DEFAULT_CONFIG, 'user-service', 'usecase', 'ProcessOrder'),
+    [
+      '  classes: ProcessOrderUseCase',
+      '  files:   process-order.usecase.ts, index.ts',
+      '  folder:  apps/user-service/src/application/usecases/process-order',
+    ].join('\n'),
+  );
+  assert(formatPreview(DEFAULT_CONFIG, 'user-service', 'event', '').includes('Type a name'));
+});
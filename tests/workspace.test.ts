@@ -0,0 +1,147 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { resolve } from 'https://deno.land/std@0.208.0/path/mod.ts';
+import { ConfigService } from '../src/config.service.ts';
+import { WorkspaceService } from '../src/workspace.service.ts';
+
+const NEST_CLI_PATH = 'test-temp/nest-cli.json';
+
+// Test utilities
+async function writeNestCli(config: unknown) {
+  await Deno.mkdir('test-temp', { recursive: true });
+  await Deno.writeTextFile(NEST_CLI_PATH, JSON.stringify(config));
+}
+
+async function cleanupTestDirs() {
+  try {
+    await Deno.remove('test-temp', { recursive: true });
+  } catch {
+    // Directory doesn't exist, ignore
+  }
+}
+
+function createWorkspace() {
+  return new WorkspaceService(new ConfigService('test-temp/cquver.json'), NEST_CLI_PATH);
+}
+
+const PROJECTS = {
+  monorepo: true,
+  projects: {
+    'user-service': {
+      type: 'application',
+      root: 'apps/user-service',
+      sourceRoot: 'apps/user-service/src',
+    },
+    'billing': { type: 'application', sourceRoot: 'apps/billing/src' },
+    'shared': { type: 'library', root: 'libs/shared', sourceRoot: 'libs/shared/src' },
+  },
+};
+
+Deno.test('WorkspaceService - lists nest-cli.json applications and libraries', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeNestCli(PROJECTS);
+
+    const workspace = createWorkspace();
+
+    assertEquals(await workspace.listApps(), [
+      { name: 'billing', root: 'test-temp/apps/billing', kind: 'app' },
+      { name: 'user-service', root: 'test-temp/apps/user-service', kind: 'app' },
+    ]);
+    assertEquals(await workspace.listLibraries(), [
+      { name: 'shared', root: 'test-temp/libs/shared', kind: 'library' },
+    ]);
+    assertEquals(await workspace.getProjectKind('shared'), 'library');
+    assertEquals(await workspace.getProjectKind('billing'), 'app');
+    assertEquals((await workspace.getProjectLocations()).billing, {
+      root: 'test-temp/apps/billing',
+      sourceRoot: 'test-temp/apps/billing/src',
+    });
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('WorkspaceService - resolves the app from the current directory', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeNestCli(PROJECTS);
+    const workspace = createWorkspace();
+
+    assertEquals(
+      await workspace.resolveApp('test-temp/apps/user-service/src/application'),
+      'user-service',
+    );
+    assertEquals(await workspace.resolveApp(resolve('test-temp/apps/billing')), 'billing');
+    assertEquals(await workspace.resolveApp('test-temp/libs/shared/src'), 'shared');
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('WorkspaceService - lists the candidates when the app is ambiguous', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeNestCli(PROJECTS);
+
+    await assertRejects(
+      () => createWorkspace().resolveApp('test-temp'),
+      Error,
+      'Cannot tell which app to use, pass one of: billing, user-service',
+    );
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('WorkspaceService - picks the only app folder without nest-cli.json', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await Deno.mkdir('test-temp/apps/orders', { recursive: true });
+    await Deno.writeTextFile(
+      'test-temp/cquver.json',
+      JSON.stringify({ appsDir: 'test-temp/apps' }),
+    );
+
+    assertEquals(await createWorkspace().resolveApp('test-temp'), 'orders');
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('WorkspaceService - finds the workspace root from a nested directory', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeNestCli(PROJECTS);
+    await Deno.mkdir('test-temp/apps/user-service/src', { recursive: true });
+
+    assertEquals(
+      await createWorkspace().findRoot('test-temp/apps/user-service/src'),
+      resolve('test-temp'),
+    );
+  } finally {
+    await cleanupTestDirs();
+  }
+});
+
+Deno.test('WorkspaceService - detects standalone projects without monorepo', async () => {
+  await cleanupTestDirs();
+
+  try {
+    await writeNestCli({ collection: '@nestjs/schematics', sourceRoot: 'src' });
+    const workspace = createWorkspace();
+
+    assertEquals(await workspace.isStandalone(), true);
+    assertEquals(await workspace.getProjectKind('anything'), 'standalone');
+    assertEquals(await workspace.resolveApp('test-temp/src'), 'test-temp');
+
+    await writeNestCli({ monorepo: true, projects: {} });
+    assertEquals(await workspace.isStandalone(), false);
+  } finally {
+    await cleanupTestDirs();
+  }
+});